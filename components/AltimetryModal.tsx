@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Cpu, X } from 'lucide-react';
+import { AltimetrySettings, AltitudeSource, PressureReading } from '../types.ts';
+import { ALTITUDE_SOURCE_LABELS, DEFAULT_ALTIMETRY_SETTINGS, calibrateAtBenchmark, pressureAltitude } from '../utils/altimetry.ts';
+
+const SOURCES: AltitudeSource[] = ['gnss', 'barometer', 'manual'];
+
+const Field: React.FC<{ label: string; unit: string; value: number; step?: number; onChange: (v: number) => void }> = ({ label, unit, value, step = 1, onChange }) => (
+  <label className="flex items-center justify-between gap-3 py-2 border-t border-white/5 first:border-t-0">
+    <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{label}</span>
+    <div className="flex items-center gap-1.5">
+      <input type="number" inputMode="decimal" step={step} value={value} onChange={e => onChange(Number(e.target.value) || 0)} className="w-24 bg-slate-800 border border-white/10 rounded-xl px-2 py-1.5 text-center text-sm font-black tabular-nums text-white" />
+      <span className="w-8 text-[9px] font-black uppercase text-slate-500">{unit}</span>
+    </div>
+  </label>
+);
+
+/**
+ * Altitude source and its calibration: sea-level pressure, a GNSS offset, or both at once from a benchmark of known
+ * height. With manual pressure, the reading typed here is what the next captured points use.
+ */
+const AltimetryModal: React.FC<{
+  settings: AltimetrySettings;
+  reading: PressureReading | null;
+  gnssAltitude: number | null;
+  barometerAvailable: boolean;
+  onSave: (settings: AltimetrySettings, manualPressure: number | null) => void;
+  onClose: () => void;
+}> = ({ settings, reading, gnssAltitude, barometerAvailable, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AltimetrySettings>(settings);
+  const [manualPressure, setManualPressure] = useState(reading?.source === 'manual' ? reading.pressure : settings.seaLevelPressure);
+  const [benchmarkName, setBenchmarkName] = useState(settings.benchmark?.name ?? 'Clubhouse');
+  const [benchmarkAltitude, setBenchmarkAltitude] = useState(settings.benchmark?.altitude ?? 0);
+  const set = <K extends keyof AltimetrySettings>(key: K, value: AltimetrySettings[K]) => setDraft(d => ({ ...d, [key]: value }));
+
+  const pressureNow: PressureReading | null = draft.source === 'manual'
+    ? { pressure: manualPressure, source: 'manual', timestamp: Date.now() }
+    : draft.source === 'barometer' && reading?.source === 'barometer' ? reading : null;
+
+  const calibrate = () => setDraft(d => calibrateAtBenchmark(d, benchmarkName, benchmarkAltitude, pressureNow, gnssAltitude));
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0f172a] w-full max-w-sm rounded-[2.5rem] border border-white/10 flex flex-col max-h-[85vh] shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Cpu size={20} className="text-blue-400" />
+            <h2 className="text-sm font-black uppercase tracking-widest text-white">Altimetry</h2>
+          </div>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full text-slate-400 active:scale-95 transition-all"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 no-scrollbar">
+          <div className="flex gap-1">
+            {SOURCES.map(s => (
+              <button key={s} disabled={s === 'barometer' && !barometerAvailable} onClick={() => set('source', s)} className={`flex-1 py-2.5 rounded-xl text-[8px] font-black uppercase tracking-widest disabled:opacity-30 ${draft.source === s ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-500'}`}>{ALTITUDE_SOURCE_LABELS[s]}</button>
+            ))}
+          </div>
+          {!barometerAvailable && <p className="text-[9px] font-medium text-slate-500">This browser gives no access to a pressure sensor. Use manual pressure with a handheld barometer, or GNSS.</p>}
+
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            {draft.source === 'manual' && <Field label="Pressure now" unit="hPa" step={0.1} value={manualPressure} onChange={setManualPressure} />}
+            {draft.source !== 'gnss' && <Field label="Sea-level pressure" unit="hPa" step={0.1} value={Number(draft.seaLevelPressure.toFixed(1))} onChange={v => set('seaLevelPressure', v)} />}
+            <Field label="GNSS offset" unit="m" step={0.1} value={Number(draft.gnssOffset.toFixed(1))} onChange={v => set('gnssOffset', v)} />
+            <div className="flex justify-between pt-2 border-t border-white/5 text-[9px] font-black uppercase tracking-widest tabular-nums">
+              <span className="text-slate-500">{pressureNow ? `Pressure alt ${pressureAltitude(pressureNow.pressure, draft.seaLevelPressure).toFixed(1)}m` : 'No pressure reading'}</span>
+              <span className="text-slate-500">{gnssAltitude !== null ? `GNSS ${(gnssAltitude + draft.gnssOffset).toFixed(1)}m` : 'No GNSS height'}</span>
+            </div>
+          </div>
+
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 block mb-2">Calibrate at a benchmark</span>
+            <input value={benchmarkName} onChange={e => setBenchmarkName(e.target.value)} placeholder="Benchmark name" className="w-full bg-slate-800 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-white placeholder:text-slate-500 mb-1" />
+            <Field label="Known height" unit="m" step={0.1} value={benchmarkAltitude} onChange={setBenchmarkAltitude} />
+            <button disabled={!pressureNow && gnssAltitude === null} onClick={calibrate} className="w-full mt-2 py-2.5 bg-emerald-600/10 border border-emerald-600/20 disabled:opacity-40 rounded-2xl text-[9px] font-black uppercase tracking-widest text-emerald-400 active:scale-95 transition-all">Calibrate here</button>
+            {draft.benchmark && <p className="text-[9px] font-medium text-slate-500 mt-2">Calibrated at {draft.benchmark.name} ({draft.benchmark.altitude}m), {new Date(draft.benchmark.calibratedAt).toLocaleString()}</p>}
+          </div>
+          <p className="text-[10px] text-slate-500 font-medium">Elevation changes use the chosen source; each saved track records the source its heights came from.</p>
+        </div>
+        <div className="p-4 border-t border-white/5 flex gap-2">
+          <button onClick={() => setDraft(DEFAULT_ALTIMETRY_SETTINGS)} className="flex-1 py-3.5 bg-slate-800 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-slate-400 active:scale-95 transition-all">Defaults</button>
+          <button onClick={() => onSave(draft, draft.source === 'manual' ? manualPressure : null)} className="flex-1 py-3.5 bg-blue-600 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-white active:scale-95 transition-all">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AltimetryModal;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Circle } from 'react-leaflet';
+import { AveragingSettings, GeoPoint, UnitSystem } from '../types.ts';
+
+const RING_RADIUS = 26;
+const RING_LENGTH = 2 * Math.PI * RING_RADIUS;
+
+/** How far the capture is towards finishing: whichever of the time limit or the precision target is closer. */
+const progressOf = (average: GeoPoint | null, elapsed: number, settings: AveragingSettings) => {
+  const byTime = elapsed / settings.duration;
+  const byPrecision = average?.precision ? settings.targetError / average.precision : 0;
+  return Math.min(1, Math.max(byTime, byPrecision));
+};
+
+/** Confidence circle around the running average. Must be rendered inside a MapContainer. */
+export const AveragingCircle: React.FC<{ average: GeoPoint | null; settings: AveragingSettings }> = ({ average, settings }) => {
+  if (!average) return null;
+  const met = (average.precision ?? Infinity) <= settings.targetError;
+  return <Circle center={[average.lat, average.lng]} radius={Math.max(0.3, average.precision ?? average.accuracy)} pathOptions={{ color: met ? '#10b981' : '#f59e0b', fillOpacity: 0.25, weight: 2, dashArray: '4 4' }} />;
+};
+
+/** Countdown ring shown while a "hold to average" capture is gathering fixes. */
+const AveragingOverlay: React.FC<{ label: string; average: GeoPoint | null; elapsed: number; settings: AveragingSettings; units: UnitSystem }> = ({ label, average, elapsed, settings, units }) => {
+  const progress = progressOf(average, elapsed, settings);
+  const remaining = Math.max(0, Math.ceil(settings.duration - elapsed));
+  const precision = average?.precision;
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 rounded-full pl-2 pr-5 py-2 flex items-center gap-3 shadow-2xl animate-in fade-in duration-200">
+      <div className="relative w-16 h-16 shrink-0">
+        <svg viewBox="0 0 64 64" className="w-16 h-16 -rotate-90">
+          <circle cx="32" cy="32" r={RING_RADIUS} fill="none" stroke="rgba(255,255,255,0.1)" strokeWidth="5" />
+          <circle cx="32" cy="32" r={RING_RADIUS} fill="none" stroke={progress >= 1 ? '#10b981' : '#3b82f6'} strokeWidth="5" strokeLinecap="round" strokeDasharray={RING_LENGTH} strokeDashoffset={RING_LENGTH * (1 - progress)} className="transition-all duration-200" />
+        </svg>
+        <span className="absolute inset-0 flex items-center justify-center text-lg font-black tabular-nums text-white">{remaining}</span>
+      </div>
+      <div>
+        <span className="text-[8px] font-black uppercase tracking-[0.2em] text-slate-500 block">Averaging {label}</span>
+        <span className="text-sm font-black tabular-nums text-white block">{precision !== undefined ? `±${(precision * (units === 'Yards' ? 1.09 : 1)).toFixed(1)}${units === 'Yards' ? 'yd' : 'm'}` : '--'}</span>
+        <span className="text-[8px] font-black uppercase tracking-widest text-slate-500">{average?.samples ?? 0} fixes · release to keep</span>
+      </div>
+    </div>
+  );
+};
+
+export default AveragingOverlay;
@@ -0,0 +1,41 @@
+import React, { useEffect } from 'react';
+import { useMap } from 'react-leaflet';
+import * as L from 'leaflet';
+import { MapStyle } from '../types.ts';
+import { MAX_NATIVE_ZOOM, TILE_SOURCES, cachedTile } from '../utils/tileCache.ts';
+
+/** Leaflet's handlers for a finished or failed tile: private, so missing from its typings, but a custom `createTile` must call them. */
+type TileLayerInternals = L.TileLayer & {
+  _tileOnLoad(done: L.DoneCallback, tile: HTMLImageElement): void;
+  _tileOnError(done: L.DoneCallback, tile: HTMLImageElement, e: Error): void;
+};
+
+/** Tile layer that draws downloaded tiles from the offline cache and goes to the network only for the rest. */
+const CacheFirstLayer = L.TileLayer.extend({
+  createTile(this: TileLayerInternals, coords: L.Coords, done: L.DoneCallback) {
+    const tile = document.createElement('img');
+    L.DomEvent.on(tile, 'load', L.Util.bind(this._tileOnLoad, this, done, tile));
+    L.DomEvent.on(tile, 'error', L.Util.bind(this._tileOnError, this, done, tile));
+    L.DomEvent.on(tile, 'load', () => { if (tile.src.startsWith('blob:')) URL.revokeObjectURL(tile.src); });
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+    const url = this.getTileUrl(coords);
+    cachedTile(url)
+      .then(blob => { tile.src = blob ? URL.createObjectURL(blob) : url; })
+      .catch(e => { console.error(e); tile.src = url; });
+    return tile;
+  }
+});
+
+/** Background map for the chosen style. Must be rendered inside a MapContainer. */
+const CachedTileLayer: React.FC<{ style: MapStyle }> = ({ style }) => {
+  const map = useMap();
+  useEffect(() => {
+    const layer = new CacheFirstLayer(TILE_SOURCES[style], { maxZoom: 22, maxNativeZoom: MAX_NATIVE_ZOOM, className: 'opaque-tile-layer' });
+    layer.addTo(map);
+    return () => { layer.remove(); };
+  }, [map, style]);
+  return null;
+};
+
+export default CachedTileLayer;
@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { MapContainer, Polygon, Polyline } from 'react-leaflet';
+import * as L from 'leaflet';
+import { Download, GitCompare, X } from 'lucide-react';
+import { Course, SavedRecord, UnitSystem } from '../types.ts';
+import { ComparisonPair, compareRecords, comparisonsToCSV, describeReference } from '../utils/comparison.ts';
+import { describeRecordLocation } from '../utils/courseUtils.ts';
+import { downloadFile } from '../utils/fileUtils.ts';
+import { toDisplayElevation, unitLabels } from '../utils/geoUtils.ts';
+import { trackPath } from '../utils/landingZones.ts';
+import { formatArea, formatDistance } from '../utils/recordDisplay.ts';
+import { recordMetrics } from '../utils/recordMetrics.ts';
+import CachedTileLayer from './CachedTileLayer.tsx';
+
+const FIELD_COLOUR = '#10b981';
+const REFERENCE_COLOUR = '#e879f9';
+
+const signed = (text: string) => text.startsWith('-') ? text : `+${text}`;
+
+/**
+ * Walked record against its desk or reference counterpart: both drawn over the imagery, and the differences in
+ * length, height and, for greens, shape. One tab per pair when there are several.
+ */
+const ComparisonModal: React.FC<{
+  pairs: ComparisonPair[];
+  units: UnitSystem;
+  courses: Course[];
+  onClose: () => void;
+}> = ({ pairs, units, courses, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const comparison = useMemo(() => compareRecords(pairs[index].field, pairs[index].reference), [pairs, index]);
+  const { field, reference } = comparison;
+  const f = recordMetrics(field);
+  const r = recordMetrics(reference);
+
+  const dist = (m: number | null) => m === null ? '--' : formatDistance(m, units);
+  const elev = (m: number | null) => m === null ? '--' : `${toDisplayElevation(m, units)}${unitLabels(units).elev}`;
+  const area = (m: number | null) => m === null ? '--' : formatArea(m, units);
+  const diff = (text: string) => text === '--' ? text : signed(text);
+
+  const rows: [string, string, string, string][] = field.type === 'Track' ? [
+    ['Distance', dist(f.distance), dist(r.distance), diff(dist(comparison.distanceDifference))],
+    ['Elevation change', elev(f.elevationChange), elev(r.elevationChange), diff(elev(comparison.elevationDifference))],
+    ['Start offset', '', '', dist(comparison.startOffset)],
+    ['Finish offset', '', '', dist(comparison.endOffset)]
+  ] : [
+    ['Area', area(f.area), area(r.area), diff(area(comparison.areaDifference))],
+    ['Perimeter', dist(f.perimeter), dist(r.perimeter), diff(dist(comparison.distanceDifference))],
+    ['Bunker', f.bunkerPercent === null ? '--' : `${f.bunkerPercent}%`, r.bunkerPercent === null ? '--' : `${r.bunkerPercent}%`, ''],
+    ['Overlap (IoU)', '', '', comparison.overlap === null ? '--' : `${(comparison.overlap * 100).toFixed(1)}%`],
+    ['Hausdorff', '', '', dist(comparison.hausdorff)]
+  ];
+
+  const shape = (record: SavedRecord) => (record.type === 'Track' ? trackPath(record) : record.points).map(p => [p.lat, p.lng] as [number, number]);
+  const bounds = L.latLngBounds([...shape(field), ...shape(reference)]);
+
+  const exportCSV = () => downloadFile('\uFEFF' + comparisonsToCSV(pairs.map(p => compareRecords(p.field, p.reference)), units), 'text/csv', 'golf-comparison', 'csv');
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0f172a] w-full max-w-sm rounded-[2.5rem] border border-white/10 flex flex-col max-h-[85vh] shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3 min-w-0">
+            <GitCompare size={20} className="text-fuchsia-400 shrink-0" />
+            <h2 className="text-sm font-black uppercase tracking-widest text-white truncate">Field vs {describeReference(reference).split(' · ')[0]}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full text-slate-400 active:scale-95 transition-all"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 no-scrollbar">
+          {pairs.length > 1 && (
+            <div className="flex gap-1 overflow-x-auto no-scrollbar">
+              {pairs.map((p, i) => (
+                <button key={`${p.field.id}-${p.reference.id}`} onClick={() => setIndex(i)} className={`shrink-0 px-3 py-2 rounded-xl text-[8px] font-black uppercase tracking-widest ${i === index ? 'bg-fuchsia-600 text-white' : 'bg-slate-800 text-slate-500'}`}>{p.field.type} {i + 1}</button>
+              ))}
+            </div>
+          )}
+          <div className="h-56 rounded-3xl overflow-hidden border border-white/5">
+            <MapContainer key={index} bounds={bounds} boundsOptions={{ padding: [20, 20] }} className="h-full w-full" zoomControl={false} attributionControl={false}>
+              <CachedTileLayer style="Satellite" />
+              {field.type === 'Green' ? (
+                <>
+                  <Polygon positions={shape(reference)} pathOptions={{ color: REFERENCE_COLOUR, weight: 3, dashArray: '6 6', fillOpacity: 0.1 }} />
+                  <Polygon positions={shape(field)} pathOptions={{ color: FIELD_COLOUR, weight: 3, fillOpacity: 0.15 }} />
+                </>
+              ) : (
+                <>
+                  <Polyline positions={shape(reference)} pathOptions={{ color: REFERENCE_COLOUR, weight: 4, dashArray: '6 6' }} />
+                  <Polyline positions={shape(field)} pathOptions={{ color: FIELD_COLOUR, weight: 4 }} />
+                </>
+              )}
+            </MapContainer>
+          </div>
+          <div className="flex justify-between gap-2 text-[8px] font-black uppercase tracking-widest">
+            <span className="flex items-center gap-1.5 min-w-0" style={{ color: FIELD_COLOUR }}><span className="w-4 h-1 rounded-full shrink-0" style={{ backgroundColor: FIELD_COLOUR }} /><span className="truncate">Field · {new Date(field.date).toLocaleDateString()}</span></span>
+            <span className="flex items-center gap-1.5 min-w-0" style={{ color: REFERENCE_COLOUR }}><span className="w-4 h-1 rounded-full shrink-0 border-t-2 border-dashed" style={{ borderColor: REFERENCE_COLOUR }} /><span className="truncate">{describeReference(reference)}</span></span>
+          </div>
+
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            <div className="grid grid-cols-4 gap-1 pb-2 text-[8px] font-black uppercase tracking-widest text-slate-500">
+              <span>{describeRecordLocation(field, courses) || field.type}</span><span className="text-right">Field</span><span className="text-right">Ref</span><span className="text-right">Diff</span>
+            </div>
+            {rows.map(([label, a, b, d]) => (
+              <div key={label} className="grid grid-cols-4 gap-1 py-1.5 border-t border-white/5 text-[10px] font-black tabular-nums">
+                <span className="text-slate-400 uppercase tracking-widest text-[8px] self-center">{label}</span>
+                <span className="text-right" style={{ color: FIELD_COLOUR }}>{a}</span>
+                <span className="text-right" style={{ color: REFERENCE_COLOUR }}>{b}</span>
+                <span className="text-right text-white">{d}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500 font-medium">Differences are field minus reference. Overlap is the shared area over the combined area of the two outlines; Hausdorff is the furthest either outline strays from the other.</p>
+        </div>
+        <div className="p-4 border-t border-white/5 flex gap-2">
+          <button onClick={exportCSV} className="flex-1 py-3.5 bg-slate-800 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-slate-400 flex items-center justify-center gap-2 active:scale-95 transition-all"><Download size={14} /> CSV</button>
+          <button onClick={onClose} className="flex-1 py-3.5 bg-blue-600 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-white active:scale-95 transition-all">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonModal;
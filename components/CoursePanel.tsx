@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Flag, Plus, ListOrdered, Trash2, X } from 'lucide-react';
+import { Course, CourseSelection } from '../types.ts';
+import { clampHole, findCourse } from '../utils/courseUtils.ts';
+
+const TEE_SWATCHES = ['#f8fafc', '#facc15', '#ef4444', '#3b82f6', '#10b981', '#0f172a'];
+
+/** Landing-view card for choosing the course, hole and tee that new records are filed against. */
+const CoursePanel: React.FC<{
+  courses: Course[];
+  selection: CourseSelection;
+  onSelect: (selection: CourseSelection) => void;
+  onCreateCourse: (name: string) => void;
+  onDeleteCourse: (id: string) => void;
+  onAddTee: (name: string, colour: string) => void;
+  onOpenHoles: () => void;
+}> = ({ courses, selection, onSelect, onCreateCourse, onDeleteCourse, onAddTee, onOpenHoles }) => {
+  const [newCourseName, setNewCourseName] = useState<string | null>(null);
+  const [newTeeName, setNewTeeName] = useState<string | null>(null);
+  const [newTeeColour, setNewTeeColour] = useState(TEE_SWATCHES[3]);
+  const course = findCourse(courses, selection.courseId);
+
+  const submitCourse = () => {
+    if (newCourseName === null) return;
+    onCreateCourse(newCourseName);
+    setNewCourseName(null);
+  };
+
+  const submitTee = () => {
+    if (!newTeeName || !newTeeName.trim()) return;
+    onAddTee(newTeeName, newTeeColour);
+    setNewTeeName(null);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-white/5 rounded-[2.5rem] p-5 mb-4 shadow-2xl">
+      <div className="flex items-center justify-between mb-3 px-1">
+        <div className="flex items-center gap-2"><Flag size={14} className="text-blue-400" /><span className="text-[9px] font-black tracking-[0.2em] text-slate-500 uppercase">Course</span></div>
+        <button onClick={() => setNewCourseName(newCourseName === null ? '' : null)} className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600/10 border border-blue-600/20 rounded-full active:scale-95 transition-all">{newCourseName === null ? <Plus size={12} className="text-blue-400" /> : <X size={12} className="text-blue-400" />}<span className="text-[8px] font-black text-blue-400 uppercase tracking-widest">{newCourseName === null ? 'New' : 'Cancel'}</span></button>
+      </div>
+
+      {newCourseName !== null && (
+        <div className="flex gap-2 mb-3">
+          <input autoFocus value={newCourseName} onChange={e => setNewCourseName(e.target.value)} onKeyDown={e => e.key === 'Enter' && submitCourse()} placeholder="Course name" className="flex-1 min-w-0 bg-slate-800 border border-white/10 rounded-2xl px-4 py-3 text-xs font-bold text-white placeholder:text-slate-500" />
+          <button onClick={submitCourse} className="px-4 bg-blue-600 rounded-2xl font-black text-[9px] tracking-widest uppercase active:scale-95 transition-all">Add</button>
+        </div>
+      )}
+
+      {courses.length === 0 ? (
+        <p className="text-slate-500 text-[10px] font-medium text-center py-2">Add a course to file tracks and greens by hole and tee.</p>
+      ) : (
+        <>
+          <div className="flex gap-2 overflow-x-auto pb-3 no-scrollbar">
+            {courses.map(c => (
+              <button key={c.id} onClick={() => onSelect({ courseId: c.id, holeNumber: 1, teeId: c.tees[0]?.id ?? null })} className={`shrink-0 px-4 py-2 rounded-full border text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 ${c.id === selection.courseId ? 'bg-blue-600 border-blue-400/40 text-white' : 'bg-slate-800 border-white/5 text-slate-400'}`}>{c.name}</button>
+            ))}
+          </div>
+
+          {course && (
+            <>
+              <div className="flex items-center justify-between bg-white/[0.03] border border-white/5 rounded-3xl p-2 mb-3">
+                <button onClick={() => onSelect({ ...selection, holeNumber: clampHole(selection.holeNumber - 1) })} className="w-10 h-10 rounded-full bg-slate-800 flex items-center justify-center active:scale-95 transition-all"><ChevronLeft size={18} className="text-slate-300" /></button>
+                <div className="text-center">
+                  <span className="text-slate-500 text-[8px] font-black uppercase block tracking-widest">Hole</span>
+                  <span className="text-2xl font-black tabular-nums text-white leading-none">{selection.holeNumber}</span>
+                </div>
+                <button onClick={() => onSelect({ ...selection, holeNumber: clampHole(selection.holeNumber + 1) })} className="w-10 h-10 rounded-full bg-slate-800 flex items-center justify-center active:scale-95 transition-all"><ChevronRight size={18} className="text-slate-300" /></button>
+              </div>
+
+              <div className="flex gap-2 flex-wrap mb-3">
+                {course.tees.map(t => (
+                  <button key={t.id} onClick={() => onSelect({ ...selection, teeId: t.id })} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-[9px] font-black uppercase tracking-widest transition-all active:scale-95 ${t.id === selection.teeId ? 'bg-white/10 border-white/30 text-white' : 'bg-slate-800 border-white/5 text-slate-500'}`}>
+                    <span className="w-2.5 h-2.5 rounded-full border border-white/30" style={{ backgroundColor: t.colour }} />{t.name}
+                  </button>
+                ))}
+                <button onClick={() => setNewTeeName(newTeeName === null ? '' : null)} className="px-3 py-1.5 rounded-full border border-dashed border-white/10 text-slate-500 active:scale-95 transition-all">{newTeeName === null ? <Plus size={12} /> : <X size={12} />}</button>
+              </div>
+
+              {newTeeName !== null && (
+                <div className="flex flex-col gap-2 mb-3">
+                  <div className="flex gap-2">
+                    <input autoFocus value={newTeeName} onChange={e => setNewTeeName(e.target.value)} onKeyDown={e => e.key === 'Enter' && submitTee()} placeholder="Tee name" className="flex-1 min-w-0 bg-slate-800 border border-white/10 rounded-2xl px-4 py-2.5 text-xs font-bold text-white placeholder:text-slate-500" />
+                    <button onClick={submitTee} className="px-4 bg-blue-600 rounded-2xl font-black text-[9px] tracking-widest uppercase active:scale-95 transition-all">Add</button>
+                  </div>
+                  <div className="flex gap-2 justify-center">
+                    {TEE_SWATCHES.map(c => <button key={c} onClick={() => setNewTeeColour(c)} className={`w-6 h-6 rounded-full border-2 ${c === newTeeColour ? 'border-blue-400' : 'border-white/10'}`} style={{ backgroundColor: c }} />)}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <button onClick={onOpenHoles} className="flex-1 flex items-center justify-center gap-2 py-3 bg-slate-800 border border-white/5 rounded-2xl active:scale-95 transition-all"><ListOrdered size={14} className="text-emerald-400" /><span className="text-[9px] font-black uppercase tracking-widest text-emerald-400">Hole Summary</span></button>
+                <button onClick={() => onDeleteCourse(course.id)} className="w-12 flex items-center justify-center bg-slate-800 border border-white/5 rounded-2xl text-red-400 active:scale-95 transition-all"><Trash2 size={14} /></button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CoursePanel;
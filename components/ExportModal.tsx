@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { DatabaseBackup, Download, X } from 'lucide-react';
+import { Course, ExportFormat, ExportOptions, SavedRecord, UnitSystem } from '../types.ts';
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'kml', label: 'KML', description: 'Google Earth and Google Maps' },
+  { format: 'gpx', label: 'GPX 1.1', description: 'Handheld GPS units and route planners' },
+  { format: 'geojson', label: 'GeoJSON', description: 'QGIS and other GIS, with every measured value as attributes' },
+  { format: 'csv', label: 'CSV', description: 'Excel: a records file and a points file' }
+];
+
+const UNIT_OPTIONS: UnitSystem[] = ['Yards', 'Metres'];
+
+/** Choice of file format, course and units for exporting the history, plus the full backup of everything on the device. */
+const ExportModal: React.FC<{
+  history: SavedRecord[];
+  courses: Course[];
+  units: UnitSystem;
+  onExport: (format: ExportFormat, options: ExportOptions) => void;
+  onBackup: () => void;
+  onClose: () => void;
+}> = ({ history, courses, units, onExport, onBackup, onClose }) => {
+  const [options, setOptions] = useState<ExportOptions>({ courseId: null, units });
+  const withRecords = courses.filter(c => history.some(r => r.courseId === c.id));
+  const count = options.courseId ? history.filter(r => r.courseId === options.courseId).length : history.length;
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0f172a] w-full max-w-sm rounded-[2.5rem] border border-white/10 flex flex-col max-h-[85vh] shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Download size={20} className="text-blue-400" />
+            <h2 className="text-sm font-black uppercase tracking-widest text-white">Export {count} Records</h2>
+          </div>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full text-slate-400 active:scale-95 transition-all"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 no-scrollbar">
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5 space-y-2">
+            <div className="flex gap-1 overflow-x-auto no-scrollbar">
+              <button onClick={() => setOptions(o => ({ ...o, courseId: null }))} className={`shrink-0 px-3 py-2 rounded-xl text-[8px] font-black uppercase tracking-widest ${options.courseId === null ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-500'}`}>All history</button>
+              {withRecords.map(c => (
+                <button key={c.id} onClick={() => setOptions(o => ({ ...o, courseId: c.id }))} className={`shrink-0 px-3 py-2 rounded-xl text-[8px] font-black uppercase tracking-widest ${options.courseId === c.id ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-500'}`}>{c.name}</button>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              {UNIT_OPTIONS.map(u => (
+                <button key={u} onClick={() => setOptions(o => ({ ...o, units: u }))} className={`flex-1 py-2 rounded-xl text-[8px] font-black uppercase tracking-widest ${options.units === u ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-500'}`}>{u}</button>
+              ))}
+            </div>
+          </div>
+          {EXPORT_FORMATS.map(f => (
+            <button key={f.format} disabled={count === 0} onClick={() => onExport(f.format, options)} className="w-full bg-white/[0.03] p-4 rounded-3xl border border-white/5 flex items-center justify-between active:scale-95 transition-all text-left disabled:opacity-40">
+              <div>
+                <span className="text-[11px] font-black uppercase tracking-widest text-white block">{f.label}</span>
+                <span className="text-[9px] font-medium text-slate-500">{f.description}</span>
+              </div>
+              <Download size={16} className="text-blue-400" />
+            </button>
+          ))}
+          <button onClick={onBackup} className="w-full bg-emerald-600/10 p-4 rounded-3xl border border-emerald-600/20 flex items-center justify-between active:scale-95 transition-all text-left">
+            <div>
+              <span className="text-[11px] font-black uppercase tracking-widest text-emerald-400 block">Full backup</span>
+              <span className="text-[9px] font-medium text-slate-500">Every record, course, worksheet and setting in one file. Restore it with Import.</span>
+            </div>
+            <DatabaseBackup size={16} className="text-emerald-400" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
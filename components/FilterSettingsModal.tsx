@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { AveragingSettings, FilterSettings } from '../types.ts';
+import { DEFAULT_FILTER_SETTINGS } from '../utils/positionFilter.ts';
+import { DEFAULT_AVERAGING_SETTINGS } from '../utils/pointAveraging.ts';
+
+const SMOOTHING_OPTIONS: { value: FilterSettings['smoothing']; label: string }[] = [
+  { value: 'kalman', label: 'Kalman' },
+  { value: 'window', label: 'Moving window' },
+  { value: 'none', label: 'None' }
+];
+
+const Field: React.FC<{ label: string; unit: string; value: number; step?: number; onChange: (v: number) => void }> = ({ label, unit, value, step = 1, onChange }) => (
+  <label className="flex items-center justify-between gap-3 py-2 border-t border-white/5 first:border-t-0">
+    <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{label}</span>
+    <div className="flex items-center gap-1.5">
+      <input type="number" inputMode="decimal" step={step} value={value} onChange={e => onChange(Number(e.target.value) || 0)} className="w-20 bg-slate-800 border border-white/10 rounded-xl px-2 py-1.5 text-center text-sm font-black tabular-nums text-white" />
+      <span className="w-8 text-[9px] font-black uppercase text-slate-500">{unit}</span>
+    </div>
+  </label>
+);
+
+/** Settings for the GPS screening and smoothing applied before fixes reach the measuring modes, and for averaged point capture. */
+const FilterSettingsModal: React.FC<{
+  settings: FilterSettings;
+  averaging: AveragingSettings;
+  onSave: (settings: FilterSettings, averaging: AveragingSettings) => void;
+  onClose: () => void;
+}> = ({ settings, averaging, onSave, onClose }) => {
+  const [draft, setDraft] = useState<FilterSettings>(settings);
+  const [averagingDraft, setAveragingDraft] = useState<AveragingSettings>(averaging);
+  const set = <K extends keyof FilterSettings>(key: K, value: FilterSettings[K]) => setDraft(d => ({ ...d, [key]: value }));
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0f172a] w-full max-w-sm rounded-[2.5rem] border border-white/10 flex flex-col max-h-[85vh] shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <SlidersHorizontal size={20} className="text-blue-400" />
+            <h2 className="text-sm font-black uppercase tracking-widest text-white">GPS Filter</h2>
+          </div>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full text-slate-400 active:scale-95 transition-all"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 no-scrollbar">
+          <button onClick={() => set('enabled', !draft.enabled)} className={`w-full py-3 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase border transition-all ${draft.enabled ? 'bg-emerald-600 border-emerald-400/30 text-white' : 'bg-slate-800 border-white/10 text-slate-400'}`}>{draft.enabled ? 'Filter On' : 'Filter Off · Raw Fixes'}</button>
+          <div className={`bg-white/[0.03] p-4 rounded-3xl border border-white/5 ${draft.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+            <Field label="Reject accuracy worse than" unit="m" value={draft.maxAccuracy} onChange={v => set('maxAccuracy', v)} />
+            <Field label="Reject speed above" unit="m/s" step={0.5} value={draft.maxSpeed} onChange={v => set('maxSpeed', v)} />
+          </div>
+          <div className={`bg-white/[0.03] p-4 rounded-3xl border border-white/5 ${draft.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 block mb-2">Smoothing</span>
+            <div className="flex gap-1 mb-2">
+              {SMOOTHING_OPTIONS.map(o => (
+                <button key={o.value} onClick={() => set('smoothing', o.value)} className={`flex-1 py-2 rounded-xl text-[8px] font-black uppercase tracking-widest ${draft.smoothing === o.value ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-500'}`}>{o.label}</button>
+              ))}
+            </div>
+            {draft.smoothing === 'kalman' && <Field label="Process noise" unit="m/s" step={0.1} value={draft.processNoise} onChange={v => set('processNoise', v)} />}
+            {draft.smoothing === 'window' && <Field label="Window size" unit="fixes" value={draft.windowSize} onChange={v => set('windowSize', Math.max(1, Math.round(v)))} />}
+          </div>
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 block mb-2">Uncertainty</span>
+            <Field label="Error shared by nearby fixes" unit="%" value={Math.round(draft.sharedVariance * 100)} onChange={v => set('sharedVariance', Math.min(100, Math.max(0, v)) / 100)} />
+            <p className="text-[10px] text-slate-500 font-medium mt-1">The part of each fix's error variance that shifts nearby points alike and is left out of a distance or area ±. 0% is the most cautious.</p>
+          </div>
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 block mb-2">Hold to average</span>
+            <Field label="Average for up to" unit="s" value={averagingDraft.duration} onChange={v => setAveragingDraft(d => ({ ...d, duration: Math.max(1, Math.round(v)) }))} />
+            <Field label="Stop early at precision" unit="m" step={0.1} value={averagingDraft.targetError} onChange={v => setAveragingDraft(d => ({ ...d, targetError: Math.max(0, v) }))} />
+          </div>
+          <p className="text-[10px] text-slate-500 font-medium">Each saved record keeps a note of the settings that produced it.</p>
+        </div>
+        <div className="p-4 border-t border-white/5 flex gap-2">
+          <button onClick={() => { setDraft(DEFAULT_FILTER_SETTINGS); setAveragingDraft(DEFAULT_AVERAGING_SETTINGS); }} className="flex-1 py-3.5 bg-slate-800 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-slate-400 active:scale-95 transition-all">Defaults</button>
+          <button onClick={() => onSave(draft, averagingDraft)} className="flex-1 py-3.5 bg-blue-600 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-white active:scale-95 transition-all">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FilterSettingsModal;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { CircleMarker, Polyline } from 'react-leaflet';
+import { GreenDimensions, LatLng } from '../types.ts';
+
+const toLatLngs = (line: LatLng[]) => line.map(p => [p.lat, p.lng] as [number, number]);
+
+/** Length and width axes of each green segment, plus the approach arrow. Must be rendered inside a MapContainer. */
+const GreenDimensionsLayer: React.FC<{ dimensions: GreenDimensions | null; arrowDraft: LatLng[] | null }> = ({ dimensions, arrowDraft }) => {
+  const arrow = arrowDraft || dimensions?.approachArrow || null;
+  return (
+    <>
+      {dimensions?.segments.map((seg, i) => (
+        <React.Fragment key={i}>
+          <Polyline positions={toLatLngs(seg.lengthAxis)} pathOptions={{ color: '#ffffff', weight: 2, opacity: 0.9, dashArray: '6 4' }} />
+          <Polyline positions={toLatLngs(seg.widthAxis)} pathOptions={{ color: '#38bdf8', weight: 2, opacity: 0.9, dashArray: '6 4' }} />
+        </React.Fragment>
+      ))}
+      {arrow && arrow.length > 0 && (
+        <>
+          {arrow.length === 2 && <Polyline positions={toLatLngs(arrow)} pathOptions={{ color: '#3b82f6', weight: 4, opacity: 0.9 }} />}
+          <CircleMarker center={[arrow[0].lat, arrow[0].lng]} radius={4} pathOptions={{ color: '#fff', fillColor: '#3b82f6', fillOpacity: 1, weight: 1.5 }} />
+          {arrow.length === 2 && <CircleMarker center={[arrow[1].lat, arrow[1].lng]} radius={7} pathOptions={{ color: '#fff', fillColor: '#3b82f6', fillOpacity: 1, weight: 2.5 }} />}
+        </>
+      )}
+    </>
+  );
+};
+
+export default GreenDimensionsLayer;
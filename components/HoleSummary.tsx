@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ChevronLeft, Navigation2, Target, Crosshair, MoveHorizontal, ClipboardList, Calculator, GitCompare } from 'lucide-react';
+import { Course, CourseSelection, SavedRecord, UnitSystem } from '../types.ts';
+import { findTee, recordsForHole } from '../utils/courseUtils.ts';
+import { holePairs } from '../utils/comparison.ts';
+import { primaryValue, secondaryValue } from '../utils/recordDisplay.ts';
+
+const PAR_OPTIONS = [3, 4, 5];
+
+/** Per-hole overview of everything measured on a course, grouped by tee set. */
+const HoleSummary: React.FC<{
+  course: Course;
+  history: SavedRecord[];
+  selection: CourseSelection;
+  units: UnitSystem;
+  onBack: () => void;
+  onSelectHole: (holeNumber: number) => void;
+  onSetPar: (holeNumber: number, par: number | null) => void;
+  onViewRecord: (record: SavedRecord) => void;
+  onOpenWorksheet: (holeNumber: number) => void;
+  onOpenReport: () => void;
+  onCompare: (holeNumber: number) => void;
+}> = ({ course, history, selection, units, onBack, onSelectHole, onSetPar, onViewRecord, onOpenWorksheet, onOpenReport, onCompare }) => {
+  const [teeFilter, setTeeFilter] = useState<string | null>(null);
+  const measuredHoles = course.holes.filter(h => recordsForHole(history, course.id, h.number, teeFilter).length > 0).length;
+
+  return (
+    <div className="flex-1 flex flex-col p-6 animate-in slide-in-from-right duration-300 overflow-y-auto no-scrollbar">
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={onBack} className="bg-[#0f172a]/95 border border-white/10 px-5 py-3 rounded-full flex items-center gap-3 shadow-2xl active:scale-95 transition-all"><ChevronLeft size={20} className="text-emerald-400" /><span className="text-[11px] font-black uppercase tracking-[0.2em]">Home</span></button>
+        <div className="text-right">
+          <h2 className="text-lg font-black uppercase italic text-blue-500 leading-none">{course.name}</h2>
+          <span className="text-[9px] font-black tracking-[0.2em] text-slate-500 uppercase">{measuredHoles}/{course.holes.length} holes measured</span>
+        </div>
+      </div>
+
+      <button onClick={onOpenReport} className="mb-4 flex items-center justify-center gap-2 py-3 bg-blue-600/10 border border-blue-600/20 rounded-2xl active:scale-95 transition-all"><Calculator size={14} className="text-blue-400" /><span className="text-[9px] font-black uppercase tracking-widest text-blue-400">Course & Slope Rating</span></button>
+
+      <div className="flex gap-2 overflow-x-auto pb-4 no-scrollbar">
+        <button onClick={() => setTeeFilter(null)} className={`shrink-0 px-3 py-1.5 rounded-full border text-[9px] font-black uppercase tracking-widest ${teeFilter === null ? 'bg-white/10 border-white/30 text-white' : 'bg-slate-800 border-white/5 text-slate-500'}`}>All tees</button>
+        {course.tees.map(t => (
+          <button key={t.id} onClick={() => setTeeFilter(t.id)} className={`shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-[9px] font-black uppercase tracking-widest ${teeFilter === t.id ? 'bg-white/10 border-white/30 text-white' : 'bg-slate-800 border-white/5 text-slate-500'}`}>
+            <span className="w-2.5 h-2.5 rounded-full border border-white/30" style={{ backgroundColor: t.colour }} />{t.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-3 pb-6">
+        {course.holes.map(hole => {
+          const records = recordsForHole(history, course.id, hole.number, teeFilter);
+          const isSelected = hole.number === selection.holeNumber;
+          const comparable = holePairs(history, course.id, hole.number).length > 0;
+          return (
+            <div key={hole.number} className={`bg-slate-900/50 border rounded-3xl p-4 ${isSelected ? 'border-blue-500/40' : 'border-white/5'}`}>
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-3">
+                  <span className="w-9 h-9 rounded-full bg-slate-800 flex items-center justify-center text-sm font-black tabular-nums">{hole.number}</span>
+                  <div className="flex gap-1">
+                    {PAR_OPTIONS.map(p => (
+                      <button key={p} onClick={() => onSetPar(hole.number, hole.par === p ? null : p)} className={`px-2 py-1 rounded-full text-[8px] font-black uppercase tracking-widest ${hole.par === p ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-500'}`}>Par {p}</button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {comparable && <button onClick={() => onCompare(hole.number)} className="w-9 h-9 rounded-full bg-slate-800 text-fuchsia-400 flex items-center justify-center active:scale-95 transition-all"><GitCompare size={16} /></button>}
+                  <button onClick={() => onOpenWorksheet(hole.number)} className="w-9 h-9 rounded-full bg-slate-800 text-amber-400 flex items-center justify-center active:scale-95 transition-all"><ClipboardList size={16} /></button>
+                  <button onClick={() => onSelectHole(hole.number)} className={`w-9 h-9 rounded-full flex items-center justify-center active:scale-95 transition-all ${isSelected ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400'}`}><Crosshair size={16} /></button>
+                </div>
+              </div>
+              {records.length === 0 ? (
+                <p className="text-slate-600 text-[10px] font-medium">No measurements yet</p>
+              ) : (
+                <div className="flex flex-col gap-1.5">
+                  {records.map(r => {
+                    const tee = findTee(course, r.teeId);
+                    return (
+                      <button key={r.id} onClick={() => onViewRecord(r)} className="flex items-center justify-between bg-white/[0.03] border border-white/5 rounded-2xl px-3 py-2 active:bg-slate-800 transition-all text-left">
+                        <div className="flex items-center gap-2">
+                          {r.type === 'Track' ? <Navigation2 size={12} className="text-blue-400" /> : r.type === 'Width' ? <MoveHorizontal size={12} className="text-violet-400" /> : <Target size={12} className="text-emerald-400" />}
+                          {tee && <span className="w-2 h-2 rounded-full border border-white/30" style={{ backgroundColor: tee.colour }} />}
+                          <span className="text-sm font-black tabular-nums text-white">{primaryValue(r, units)}</span>
+                        </div>
+                        <span className="text-[10px] font-bold text-slate-400">{secondaryValue(r, units)}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HoleSummary;
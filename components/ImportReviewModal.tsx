@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { SavedRecord } from '../types.ts';
+import { ImportPreview } from '../utils/importMerge.ts';
+
+const countByType = (records: SavedRecord[]) => (['Track', 'Green', 'Width'] as const)
+  .map(type => ({ type, count: records.filter(r => r.type === type).length }))
+  .filter(c => c.count > 0);
+
+/**
+ * Merge step for an imported file: what is new, what is already in the history, and whether to bring the duplicates in
+ * anyway. A file measured some other way (e.g. a Garmin track) can be marked as a reference to compare walked records with.
+ */
+const ImportReviewModal: React.FC<{
+  preview: ImportPreview;
+  onImport: (records: SavedRecord[]) => void;
+  onClose: () => void;
+}> = ({ preview, onImport, onClose }) => {
+  const [asReference, setAsReference] = useState(false);
+  const references = preview.fresh.filter(r => r.reference).length;
+  const markable = [...preview.fresh, ...preview.duplicates].some(r => !r.reference);
+  const importRecords = (records: SavedRecord[]) => onImport(asReference ? records.map(r => ({ ...r, reference: true })) : records);
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0f172a] w-full max-w-sm rounded-[2.5rem] border border-white/10 flex flex-col max-h-[85vh] shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3 min-w-0">
+            <Upload size={20} className="text-blue-400 shrink-0" />
+            <h2 className="text-sm font-black uppercase tracking-widest text-white truncate">{preview.fileName}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full text-slate-400 active:scale-95 transition-all"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 no-scrollbar">
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 block mb-2">New records</span>
+            {preview.fresh.length === 0 && <span className="text-[10px] font-medium text-slate-500">Nothing new in this file</span>}
+            {countByType(preview.fresh).map(c => (
+              <div key={c.type} className="flex justify-between py-1 text-[11px] font-black"><span className="text-white uppercase tracking-widest">{c.type}</span><span className="text-emerald-400 tabular-nums">{c.count}</span></div>
+            ))}
+            {references > 0 && <p className="text-[9px] font-medium text-slate-500 mt-2">{references} drawn outside the app, kept as reference</p>}
+          </div>
+          {markable && <button onClick={() => setAsReference(!asReference)} className={`w-full py-3 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase border transition-all ${asReference ? 'bg-violet-600 border-violet-400/30 text-white' : 'bg-slate-800 border-white/10 text-slate-400'}`}>{asReference ? 'Importing as Reference' : 'Importing as Walked'}</button>}
+          {markable && <p className="text-[9px] font-medium text-slate-500">Mark the file as a reference if it was drawn or measured outside this app, e.g. a track from a handheld GPS, to compare your walked records with it.</p>}
+          {preview.duplicates.length > 0 && (
+            <div className="bg-amber-500/10 border border-amber-500/20 rounded-3xl p-4">
+              <span className="text-[9px] font-black uppercase tracking-widest text-amber-400">{preview.duplicates.length} already in history</span>
+              <p className="text-[9px] font-medium text-amber-200/80 mt-1">Same type and same points as a saved record. Skipped unless you import all.</p>
+            </div>
+          )}
+        </div>
+        <div className="p-4 border-t border-white/5 flex gap-2">
+          {preview.duplicates.length > 0 && <button onClick={() => importRecords([...preview.fresh, ...preview.duplicates])} className="flex-1 py-3.5 bg-slate-800 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-slate-400 active:scale-95 transition-all">Import all</button>}
+          <button disabled={preview.fresh.length === 0} onClick={() => importRecords(preview.fresh)} className="flex-1 py-3.5 bg-blue-600 disabled:bg-slate-800 disabled:text-slate-500 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-white active:scale-95 transition-all">Import {preview.fresh.length} new</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReviewModal;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { CircleMarker, Polyline } from 'react-leaflet';
+import { LandingZone, profileColour, zoneBand } from '../utils/landingZones.ts';
+
+/** Landing-zone markers with a band square to the line of play. Must be rendered inside a MapContainer. */
+const LandingZoneLayer: React.FC<{
+  zones: LandingZone[];
+  bandWidth: number;
+  selected: LandingZone | null;
+  onSelect: (zone: LandingZone) => void;
+}> = ({ zones, bandWidth, selected, onSelect }) => (
+  <>
+    {zones.map((zone, i) => {
+      const colour = profileColour(zone.profile);
+      const isSelected = zone === selected;
+      const [a, b] = zoneBand(zone, bandWidth);
+      return (
+        <React.Fragment key={i}>
+          <Polyline positions={[[a.lat, a.lng], [b.lat, b.lng]]} pathOptions={{ color: colour, weight: isSelected ? 4 : 2, opacity: isSelected ? 0.9 : 0.5, dashArray: '4 6' }} />
+          <CircleMarker center={[zone.point.lat, zone.point.lng]} radius={isSelected ? 8 : 5} pathOptions={{ color: '#fff', fillColor: colour, fillOpacity: 1, weight: isSelected ? 2.5 : 1.5 }} eventHandlers={{ click: () => onSelect(zone) }} />
+        </React.Fragment>
+      );
+    })}
+  </>
+);
+
+export default LandingZoneLayer;
@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Minus, Plus, Sparkles } from 'lucide-react';
+import { Course, Gender, ObstacleFactor, ObstacleValues, ObstacleWorksheet, PlayerType, SavedRecord } from '../types.ts';
+import { clampHole, findTee, recordsForHole } from '../utils/courseUtils.ts';
+import { OBSTACLE_FACTORS, applyPrefill, createWorksheet, findWorksheet, obstacleValue, prefillFromRecords, psychologicalValue } from '../utils/obstacles.ts';
+
+const PLAYERS: PlayerType[] = ['Scratch', 'Bogey'];
+const GENDERS: Gender[] = ['Male', 'Female'];
+
+/** Obstacle rating form for one hole and tee, prefilled from the hole's track and green records. Saves on every change. */
+const ObstacleWorksheetView: React.FC<{
+  course: Course;
+  holeNumber: number;
+  teeId: string;
+  worksheets: ObstacleWorksheet[];
+  history: SavedRecord[];
+  onSave: (worksheet: ObstacleWorksheet) => void;
+  onChangeHole: (holeNumber: number) => void;
+  onChangeTee: (teeId: string) => void;
+  onBack: () => void;
+}> = ({ course, holeNumber, teeId, worksheets, history, onSave, onChangeHole, onChangeTee, onBack }) => {
+  const [gender, setGender] = useState<Gender>('Male');
+  const holeRecords = useMemo(() => {
+    const byTee = recordsForHole(history, course.id, holeNumber, teeId);
+    return byTee.length > 0 ? byTee : recordsForHole(history, course.id, holeNumber);
+  }, [history, course.id, holeNumber, teeId]);
+  const prefill = useMemo(() => prefillFromRecords(holeRecords), [holeRecords]);
+  const saved = findWorksheet(worksheets, course.id, holeNumber, teeId, gender);
+  const sheet = saved || applyPrefill(createWorksheet(course.id, holeNumber, teeId, gender), prefill);
+  const tee = findTee(course, teeId);
+
+  const update = (player: PlayerType, factor: ObstacleFactor, change: (entry: ObstacleValues[ObstacleFactor]) => ObstacleValues[ObstacleFactor]) => {
+    const key = player === 'Scratch' ? 'scratch' : 'bogey';
+    onSave({ ...sheet, updatedAt: Date.now(), [key]: { ...sheet[key], [factor]: change(sheet[key][factor]) } });
+  };
+
+  const stepBase = (player: PlayerType, factor: ObstacleFactor, delta: number) =>
+    update(player, factor, e => ({ ...e, base: Math.min(10, Math.max(0, e.base + delta)) }));
+
+  const toggleAdjustment = (player: PlayerType, factor: ObstacleFactor, id: string) =>
+    update(player, factor, e => ({ ...e, adjustments: e.adjustments.includes(id) ? e.adjustments.filter(a => a !== id) : [...e.adjustments, id] }));
+
+  return (
+    <div className="flex-1 flex flex-col p-6 animate-in slide-in-from-right duration-300 overflow-y-auto no-scrollbar">
+      <div className="flex items-center justify-between mb-4">
+        <button onClick={onBack} className="bg-[#0f172a]/95 border border-white/10 px-5 py-3 rounded-full flex items-center gap-3 shadow-2xl active:scale-95 transition-all"><ChevronLeft size={20} className="text-emerald-400" /><span className="text-[11px] font-black uppercase tracking-[0.2em]">Holes</span></button>
+        <div className="flex items-center gap-2">
+          <button onClick={() => onChangeHole(clampHole(holeNumber - 1))} className="w-9 h-9 rounded-full bg-slate-800 flex items-center justify-center active:scale-95 transition-all"><ChevronLeft size={16} className="text-slate-300" /></button>
+          <div className="text-center">
+            <span className="text-slate-500 text-[8px] font-black uppercase block tracking-widest">Hole</span>
+            <span className="text-xl font-black tabular-nums text-white leading-none">{holeNumber}</span>
+          </div>
+          <button onClick={() => onChangeHole(clampHole(holeNumber + 1))} className="w-9 h-9 rounded-full bg-slate-800 flex items-center justify-center active:scale-95 transition-all"><ChevronRight size={16} className="text-slate-300" /></button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-3 no-scrollbar">
+        {course.tees.map(t => (
+          <button key={t.id} onClick={() => onChangeTee(t.id)} className={`shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-[9px] font-black uppercase tracking-widest ${t.id === teeId ? 'bg-white/10 border-white/30 text-white' : 'bg-slate-800 border-white/5 text-slate-500'}`}>
+            <span className="w-2.5 h-2.5 rounded-full border border-white/30" style={{ backgroundColor: t.colour }} />{t.name}
+          </button>
+        ))}
+        <div className="w-px bg-white/10 shrink-0" />
+        {GENDERS.map(g => (
+          <button key={g} onClick={() => setGender(g)} className={`shrink-0 px-3 py-1.5 rounded-full border text-[9px] font-black uppercase tracking-widest ${g === gender ? 'bg-blue-600 border-blue-400/40 text-white' : 'bg-slate-800 border-white/5 text-slate-500'}`}>{g}</button>
+        ))}
+      </div>
+
+      <h2 className="text-lg font-black uppercase italic text-blue-500 mb-3">Obstacles · {course.name}{tee ? ` · ${tee.name}` : ''}</h2>
+
+      <div className="flex flex-col gap-3 pb-4">
+        {OBSTACLE_FACTORS.map(def => (
+          <div key={def.factor} className="bg-slate-900/50 border border-white/5 rounded-3xl p-4">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-[10px] font-black uppercase tracking-widest text-white">{def.label}</span>
+              {prefill.sources[def.factor] && <span className="flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-emerald-400/80"><Sparkles size={10} />{prefill.sources[def.factor]}</span>}
+            </div>
+            {PLAYERS.map(player => {
+              const entry = sheet[player === 'Scratch' ? 'scratch' : 'bogey'][def.factor];
+              return (
+                <div key={player} className="flex items-center gap-2 py-1.5 border-t border-white/5 first:border-t-0">
+                  <span className="w-12 text-[8px] font-black uppercase tracking-widest text-slate-500">{player}</span>
+                  <button onClick={() => stepBase(player, def.factor, -1)} className="w-7 h-7 rounded-full bg-slate-800 flex items-center justify-center active:scale-95"><Minus size={12} className="text-slate-300" /></button>
+                  <span className="w-5 text-center text-sm font-black tabular-nums text-slate-300">{entry.base}</span>
+                  <button onClick={() => stepBase(player, def.factor, 1)} className="w-7 h-7 rounded-full bg-slate-800 flex items-center justify-center active:scale-95"><Plus size={12} className="text-slate-300" /></button>
+                  <div className="flex-1 flex gap-1 overflow-x-auto no-scrollbar">
+                    {def.adjustments.map(a => (
+                      <button key={a.id} onClick={() => toggleAdjustment(player, def.factor, a.id)} className={`shrink-0 px-2 py-1 rounded-full text-[7px] font-black uppercase tracking-widest ${entry.adjustments.includes(a.id) ? 'bg-amber-500 text-slate-950' : 'bg-slate-800 text-slate-500'}`}>{a.label} {a.value > 0 ? `+${a.value}` : a.value}</button>
+                    ))}
+                  </div>
+                  <span className="w-8 text-right text-lg font-black tabular-nums text-emerald-400">{obstacleValue(def.factor, entry)}</span>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+
+        <div className="bg-blue-600/10 border border-blue-600/20 rounded-3xl p-4 flex items-center justify-between">
+          <span className="text-[10px] font-black uppercase tracking-widest text-blue-400">Psychological</span>
+          <div className="flex gap-4">
+            {PLAYERS.map(player => (
+              <div key={player} className="text-center">
+                <span className="text-[8px] font-black uppercase tracking-widest text-slate-500 block">{player}</span>
+                <span className="text-xl font-black tabular-nums text-white">{psychologicalValue(sheet[player === 'Scratch' ? 'scratch' : 'bogey'])}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        {!saved && <p className="text-center text-[9px] font-medium text-slate-500">Not saved yet · any change saves this worksheet</p>}
+      </div>
+    </div>
+  );
+};
+
+export default ObstacleWorksheetView;
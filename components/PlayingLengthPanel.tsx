@@ -0,0 +1,29 @@
+import React from 'react';
+import { PlayingLength, UnitSystem } from '../types.ts';
+import { toDisplayDistance } from '../utils/geoUtils.ts';
+import { playerLabel } from '../utils/ratingCalculator.ts';
+
+/** Effective playing length strip for the four rated golfers, shown under the track panel. */
+const PlayingLengthPanel: React.FC<{ lengths: PlayingLength[]; units: UnitSystem }> = ({ lengths, units }) => {
+  const unitLabel = units === 'Yards' ? 'yd' : 'm';
+  const adjustment = lengths[0]?.elevationAdjustment ?? 0;
+  return (
+    <div className="mt-3 border-t border-white/5 pt-2">
+      <div className="flex items-center justify-between px-2 mb-1.5">
+        <span className="text-[8px] font-black uppercase tracking-[0.2em] text-slate-500">Effective Playing Length</span>
+        <span className="text-[8px] font-black uppercase tracking-widest text-amber-400">Elev adj {(adjustment >= 0 ? '+' : '') + toDisplayDistance(adjustment, units)}{unitLabel}</span>
+      </div>
+      <div className="grid grid-cols-4 gap-1">
+        {lengths.map(l => (
+          <div key={playerLabel(l)} className="bg-white/[0.03] rounded-2xl border border-white/5 py-1.5 text-center">
+            <span className="text-[7px] font-black uppercase tracking-widest text-slate-500 block">{playerLabel(l)}</span>
+            <span className="text-sm font-black tabular-nums text-white leading-none">{Math.round(Number(toDisplayDistance(l.effectiveLength, units)))}</span>
+            <span className="text-[7px] font-black uppercase text-slate-500 block">{l.shotsToGreen} shot{l.shotsToGreen === 1 ? '' : 's'}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PlayingLengthPanel;
@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, Download, AlertCircle } from 'lucide-react';
+import { Course, Gender, ObstacleWorksheet, SavedRecord, ShotProfile, UnitSystem } from '../types.ts';
+import { toDisplayDistance } from '../utils/geoUtils.ts';
+import { RatingSummary, buildRatingReport, ratingReportToCSV } from '../utils/ratingReport.ts';
+import { downloadFile } from '../utils/fileUtils.ts';
+
+const GENDERS: Gender[] = ['Male', 'Female'];
+
+const SummaryCard: React.FC<{ label: string; summary: RatingSummary; highlight?: boolean }> = ({ label, summary, highlight }) => (
+  <div className={`flex-1 rounded-3xl border p-3 text-center ${highlight ? 'bg-blue-600/10 border-blue-600/30' : 'bg-white/[0.03] border-white/5'}`}>
+    <span className="text-[8px] font-black uppercase tracking-widest text-slate-500 block mb-1">{label}</span>
+    <span className={`font-black tabular-nums leading-none block ${highlight ? 'text-3xl text-white' : 'text-xl text-white'}`}>{summary.courseRating.toFixed(1)}</span>
+    <span className="text-[8px] font-black uppercase tracking-widest text-slate-500 block mt-1">Slope <span className="text-emerald-400 text-[11px]">{summary.slope}</span></span>
+    <span className="text-[8px] font-black uppercase tracking-widest text-slate-600 block">Bogey {summary.bogeyRating.toFixed(1)}</span>
+  </div>
+);
+
+/** Course Rating and Slope Rating for one tee set and gender, with the per-hole breakdown behind them. */
+const RatingReportView: React.FC<{
+  course: Course;
+  teeId: string;
+  history: SavedRecord[];
+  worksheets: ObstacleWorksheet[];
+  profiles: ShotProfile[];
+  units: UnitSystem;
+  onChangeTee: (teeId: string) => void;
+  onBack: () => void;
+}> = ({ course, teeId, history, worksheets, profiles, units, onChangeTee, onBack }) => {
+  const [gender, setGender] = useState<Gender>('Male');
+  const report = useMemo(() => buildRatingReport(course, teeId, gender, history, worksheets, profiles), [course, teeId, gender, history, worksheets, profiles]);
+  const unitLabel = units === 'Yards' ? 'yd' : 'm';
+  const dist = (m: number | null) => m === null ? '--' : Math.round(Number(toDisplayDistance(m, units))).toString();
+
+  return (
+    <div className="flex-1 flex flex-col p-6 animate-in slide-in-from-right duration-300 overflow-y-auto no-scrollbar">
+      <div className="flex items-center justify-between mb-4">
+        <button onClick={onBack} className="bg-[#0f172a]/95 border border-white/10 px-5 py-3 rounded-full flex items-center gap-3 shadow-2xl active:scale-95 transition-all"><ChevronLeft size={20} className="text-emerald-400" /><span className="text-[11px] font-black uppercase tracking-[0.2em]">Holes</span></button>
+        <button onClick={() => downloadFile(ratingReportToCSV(report, units), 'text/csv', `rating-${course.name.replace(/\W+/g, '-').toLowerCase()}`, 'csv')} className="flex items-center gap-1.5 px-4 py-2.5 bg-blue-600/10 border border-blue-600/20 rounded-full active:scale-95 transition-all"><Download size={14} className="text-blue-400" /><span className="text-[9px] font-black text-blue-400 uppercase tracking-widest">Export</span></button>
+      </div>
+
+      <h2 className="text-lg font-black uppercase italic text-blue-500 mb-3">Rating · {course.name}</h2>
+
+      <div className="flex gap-2 overflow-x-auto pb-4 no-scrollbar">
+        {course.tees.map(t => (
+          <button key={t.id} onClick={() => onChangeTee(t.id)} className={`shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-[9px] font-black uppercase tracking-widest ${t.id === teeId ? 'bg-white/10 border-white/30 text-white' : 'bg-slate-800 border-white/5 text-slate-500'}`}>
+            <span className="w-2.5 h-2.5 rounded-full border border-white/30" style={{ backgroundColor: t.colour }} />{t.name}
+          </button>
+        ))}
+        <div className="w-px bg-white/10 shrink-0" />
+        {GENDERS.map(g => (
+          <button key={g} onClick={() => setGender(g)} className={`shrink-0 px-3 py-1.5 rounded-full border text-[9px] font-black uppercase tracking-widest ${g === gender ? 'bg-blue-600 border-blue-400/40 text-white' : 'bg-slate-800 border-white/5 text-slate-500'}`}>{g}</button>
+        ))}
+      </div>
+
+      <div className="flex gap-2 mb-3">
+        <SummaryCard label="Front 9" summary={report.front} />
+        <SummaryCard label="Course Rating" summary={report.total} highlight />
+        <SummaryCard label="Back 9" summary={report.back} />
+      </div>
+
+      {(report.missingLengths.length > 0 || report.missingObstacles.length > 0) && (
+        <div className="flex items-start gap-2 bg-amber-500/10 border border-amber-500/20 rounded-2xl p-3 mb-3">
+          <AlertCircle size={14} className="text-amber-500 shrink-0 mt-0.5" />
+          <div className="text-[9px] font-medium text-amber-200/80 leading-relaxed">
+            {report.missingLengths.length > 0 && <p>No track for hole {report.missingLengths.join(', ')}</p>}
+            {report.missingObstacles.length > 0 && <p>No obstacle worksheet for hole {report.missingObstacles.join(', ')}</p>}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-slate-900/50 border border-white/5 rounded-3xl overflow-hidden mb-6">
+        <div className="grid grid-cols-[2rem_2rem_1fr_1fr_1fr_2.5rem_2.5rem] gap-1 px-3 py-2 border-b border-white/5 text-[7px] font-black uppercase tracking-widest text-slate-500">
+          <span>Hole</span><span>Par</span><span className="text-right">Meas</span><span className="text-right">Scr</span><span className="text-right">Bog</span><span className="text-right">Ob S</span><span className="text-right">Ob B</span>
+        </div>
+        {report.rows.map(r => (
+          <div key={r.holeNumber} className={`grid grid-cols-[2rem_2rem_1fr_1fr_1fr_2.5rem_2.5rem] gap-1 px-3 py-1.5 text-[11px] font-black tabular-nums ${r.holeNumber === report.front.holes + 1 ? 'border-t border-white/10' : ''}`}>
+            <span className="text-white">{r.holeNumber}</span>
+            <span className="text-slate-500">{r.par ?? '-'}</span>
+            <span className="text-right text-slate-300">{dist(r.measured)}</span>
+            <span className="text-right text-emerald-400">{dist(r.effectiveScratch)}</span>
+            <span className="text-right text-amber-400">{dist(r.effectiveBogey)}</span>
+            <span className="text-right text-slate-400">{r.scratchObstacle?.toFixed(1) ?? '--'}</span>
+            <span className="text-right text-slate-400">{r.bogeyObstacle?.toFixed(1) ?? '--'}</span>
+          </div>
+        ))}
+        <div className="grid grid-cols-[4rem_1fr_1fr_1fr] gap-1 px-3 py-2 border-t border-white/10 text-[10px] font-black tabular-nums">
+          <span className="text-slate-500 uppercase text-[8px] tracking-widest">Total {unitLabel}</span>
+          <span className="text-right text-slate-300">{dist(report.rows.reduce((s, r) => s + (r.measured ?? 0), 0))}</span>
+          <span className="text-right text-emerald-400">{dist(report.total.effectiveScratch)}</span>
+          <span className="text-right text-amber-400">{dist(report.total.effectiveBogey)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RatingReportView;
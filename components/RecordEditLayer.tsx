@@ -0,0 +1,50 @@
+import React from 'react';
+import { Marker, Polyline } from 'react-leaflet';
+import * as L from 'leaflet';
+import { GeoPoint, LatLng } from '../types.ts';
+import { EditSelection } from '../utils/recordEdit.ts';
+
+const vertexIcon = (selected: boolean, colour: string) => L.divIcon({
+  className: '',
+  iconSize: [22, 22],
+  iconAnchor: [11, 11],
+  html: `<div style="width:22px;height:22px;border-radius:9999px;border:3px solid ${selected ? '#facc15' : '#ffffff'};background:${colour};box-shadow:0 2px 6px rgba(0,0,0,.5)"></div>`
+});
+
+/**
+ * Drag handles on each vertex and a wide tap target along each segment of the record being edited.
+ * Must be rendered inside a MapContainer.
+ */
+const RecordEditLayer: React.FC<{
+  vertices: GeoPoint[];
+  closed: boolean;
+  selection: EditSelection | null;
+  vertexColour: (index: number) => string;
+  onSelect: (selection: EditSelection) => void;
+  onMove: (index: number, at: LatLng) => void;
+}> = ({ vertices, closed, selection, vertexColour, onSelect, onMove }) => {
+  const segments = vertices.map((p, i) => [p, vertices[i + 1] ?? (closed ? vertices[0] : null)] as const).filter(([, b]) => b !== null);
+  return (
+    <>
+      {segments.map(([a, b], i) => {
+        const selected = selection?.kind === 'segment' && selection.index === i;
+        return <Polyline key={`s${i}`} positions={[[a.lat, a.lng], [b!.lat, b!.lng]]} pathOptions={{ color: '#facc15', weight: 22, opacity: selected ? 0.45 : 0.01 }} eventHandlers={{ click: () => onSelect({ kind: 'segment', index: i }) }} />;
+      })}
+      {vertices.map((p, i) => (
+        <Marker
+          key={`v${i}`}
+          position={[p.lat, p.lng]}
+          draggable
+          icon={vertexIcon(selection?.kind === 'vertex' && selection.index === i, vertexColour(i))}
+          eventHandlers={{
+            click: () => onSelect({ kind: 'vertex', index: i }),
+            drag: (e: L.LeafletEvent) => onMove(i, (e.target as L.Marker).getLatLng()),
+            dragend: () => onSelect({ kind: 'vertex', index: i })
+          }}
+        />
+      ))}
+    </>
+  );
+};
+
+export default RecordEditLayer;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { AlertCircle, DatabaseBackup, X } from 'lucide-react';
+import { BackupPreview, RestoreMode } from '../utils/backup.ts';
+
+/** What a backup file holds, and whether to merge it into this device's data or replace that data with it. */
+const RestoreModal: React.FC<{
+  preview: BackupPreview;
+  historyCount: number;
+  onRestore: (mode: RestoreMode) => void;
+  onClose: () => void;
+}> = ({ preview, historyCount, onRestore, onClose }) => {
+  const { backup } = preview;
+  const counts = (['Track', 'Green', 'Width'] as const).map(type => ({ type, count: backup.records.filter(r => r.type === type).length }));
+  const fresh = backup.records.length - preview.existing;
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0f172a] w-full max-w-sm rounded-[2.5rem] border border-white/10 flex flex-col max-h-[85vh] shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3 min-w-0">
+            <DatabaseBackup size={20} className="text-blue-400 shrink-0" />
+            <h2 className="text-sm font-black uppercase tracking-widest text-white truncate">Restore Backup</h2>
+          </div>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full text-slate-400 active:scale-95 transition-all"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 no-scrollbar">
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 block truncate">{preview.fileName}</span>
+            <span className="text-[9px] font-medium text-slate-500 block mb-2">{backup.exportedAt ? new Date(backup.exportedAt).toLocaleString() : 'Date unknown'} · schema {backup.schema}</span>
+            {counts.map(c => (
+              <div key={c.type} className="flex justify-between py-1 text-[11px] font-black"><span className="text-white uppercase tracking-widest">{c.type}</span><span className="text-emerald-400 tabular-nums">{c.count}</span></div>
+            ))}
+            <div className="flex justify-between py-1 text-[11px] font-black"><span className="text-white uppercase tracking-widest">Courses</span><span className="text-emerald-400 tabular-nums">{backup.courses.length}</span></div>
+            <div className="flex justify-between py-1 text-[11px] font-black"><span className="text-white uppercase tracking-widest">Worksheets</span><span className="text-emerald-400 tabular-nums">{backup.worksheets.length}</span></div>
+            {backup.courses.length > 0 && <p className="text-[9px] font-medium text-slate-500 mt-2">{backup.courses.map(c => c.name).join(', ')}</p>}
+            <p className="text-[9px] font-medium text-slate-500 mt-1">{Object.keys(backup.settings).length > 0 ? 'Includes filter, averaging and landing zone settings' : 'No settings in this backup'}</p>
+          </div>
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 block mb-1">Merge</span>
+            <p className="text-[9px] font-medium text-slate-500">Adds {fresh} record{fresh === 1 ? '' : 's'} not on this device{preview.existing > 0 ? `; ${preview.existing} already here are kept as they are` : ''}. Settings stay as they are.</p>
+          </div>
+          {historyCount > 0 && (
+            <div className="flex items-start gap-2 bg-amber-500/10 border border-amber-500/20 rounded-3xl p-4">
+              <AlertCircle size={14} className="text-amber-500 shrink-0 mt-0.5" />
+              <p className="text-[9px] font-medium text-amber-200/80">Replace deletes the {historyCount} record{historyCount === 1 ? '' : 's'}, courses and settings on this device and puts the backup in their place.</p>
+            </div>
+          )}
+        </div>
+        <div className="p-4 border-t border-white/5 flex gap-2">
+          <button onClick={() => onRestore('replace')} className="flex-1 py-3.5 bg-slate-800 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-amber-400 active:scale-95 transition-all">Replace</button>
+          <button onClick={() => onRestore('merge')} className="flex-1 py-3.5 bg-blue-600 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-white active:scale-95 transition-all">Merge</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RestoreModal;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Crosshair, X } from 'lucide-react';
+import { LandingZoneSettings } from '../types.ts';
+import { playerLabel } from '../utils/ratingCalculator.ts';
+import { DEFAULT_LANDING_ZONE_SETTINGS, profileColour } from '../utils/landingZones.ts';
+
+const NumberField: React.FC<{ label: string; value: number; onChange: (v: number) => void }> = ({ label, value, onChange }) => (
+  <label className="flex-1 flex flex-col items-center gap-1">
+    <span className="text-[7px] font-black uppercase tracking-widest text-slate-500">{label}</span>
+    <input type="number" inputMode="numeric" value={value} onChange={e => onChange(Number(e.target.value) || 0)} className="w-full bg-slate-800 border border-white/10 rounded-xl px-2 py-2 text-center text-sm font-black tabular-nums text-white" />
+  </label>
+);
+
+/** Editor for the shot lengths used to place landing zones. Values are in yards, as in the rating manual. */
+const ShotProfileModal: React.FC<{
+  settings: LandingZoneSettings;
+  onSave: (settings: LandingZoneSettings) => void;
+  onClose: () => void;
+}> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<LandingZoneSettings>(settings);
+
+  const updateProfile = (index: number, field: 'teeShot' | 'secondShot', value: number) => {
+    setDraft(d => ({ ...d, profiles: d.profiles.map((p, i) => i === index ? { ...p, [field]: value } : p) }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0f172a] w-full max-w-sm rounded-[2.5rem] border border-white/10 flex flex-col max-h-[85vh] shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Crosshair size={20} className="text-blue-400" />
+            <h2 className="text-sm font-black uppercase tracking-widest text-white">Landing Zones</h2>
+          </div>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full text-slate-400 active:scale-95 transition-all"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 no-scrollbar">
+          <p className="text-[10px] text-slate-400 font-medium">Shot lengths in yards. The tee shot sets the first landing zone, each later full shot adds the second-shot length.</p>
+          {draft.profiles.map((p, i) => (
+            <div key={playerLabel(p)} className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: profileColour(p) }} />
+                <span className="text-[10px] font-black uppercase tracking-widest text-white">{p.player} {p.gender}</span>
+              </div>
+              <div className="flex gap-2">
+                <NumberField label="Tee shot" value={p.teeShot} onChange={v => updateProfile(i, 'teeShot', v)} />
+                <NumberField label="Second shot" value={p.secondShot} onChange={v => updateProfile(i, 'secondShot', v)} />
+              </div>
+            </div>
+          ))}
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            <NumberField label="Zone band width" value={draft.bandWidth} onChange={v => setDraft(d => ({ ...d, bandWidth: v }))} />
+          </div>
+        </div>
+        <div className="p-4 border-t border-white/5 flex gap-2">
+          <button onClick={() => setDraft(DEFAULT_LANDING_ZONE_SETTINGS)} className="flex-1 py-3.5 bg-slate-800 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-slate-400 active:scale-95 transition-all">Defaults</button>
+          <button onClick={() => onSave({ ...draft, profiles: draft.profiles.map(p => ({ ...p, teeShot: Math.max(1, p.teeShot), secondShot: Math.max(1, p.secondShot) })) })} className="flex-1 py-3.5 bg-blue-600 rounded-2xl font-black text-[10px] tracking-[0.2em] uppercase text-white active:scale-95 transition-all">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShotProfileModal;
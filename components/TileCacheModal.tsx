@@ -0,0 +1,123 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DownloadCloud, Map as MapIcon, Minus, Plus, Trash2, X } from 'lucide-react';
+import { CachedArea, Course, LatLng, SavedRecord } from '../types.ts';
+import { DEFAULT_CACHE_ZOOMS, DownloadProgress, MAX_AREA_TILES, MAX_NATIVE_ZOOM, MIN_CACHE_ZOOM, countAreaTiles, courseBounds, downloadArea, formatBytes } from '../utils/tileCache.ts';
+
+const ZoomStepper: React.FC<{ label: string; value: number; min: number; max: number; onChange: (value: number) => void }> = ({ label, value, min, max, onChange }) => (
+  <div className="flex-1 flex items-center justify-between bg-slate-800/60 rounded-2xl p-1.5">
+    <button onClick={() => onChange(Math.max(min, value - 1))} className="w-7 h-7 rounded-full bg-slate-800 flex items-center justify-center active:scale-95"><Minus size={12} className="text-slate-300" /></button>
+    <div className="text-center">
+      <span className="text-[7px] font-black uppercase tracking-widest text-slate-500 block">{label}</span>
+      <span className="text-sm font-black tabular-nums text-white">{value}</span>
+    </div>
+    <button onClick={() => onChange(Math.min(max, value + 1))} className="w-7 h-7 rounded-full bg-slate-800 flex items-center justify-center active:scale-95"><Plus size={12} className="text-slate-300" /></button>
+  </div>
+);
+
+/** Saves each course's satellite tiles for use without signal, and shows what is saved and how big it is. */
+const TileCacheModal: React.FC<{
+  courses: Course[];
+  history: SavedRecord[];
+  areas: CachedArea[];
+  position: LatLng | null;
+  onDownloaded: (area: CachedArea) => void;
+  onDelete: (area: CachedArea) => void;
+  onClose: () => void;
+}> = ({ courses, history, areas, position, onDownloaded, onDelete, onClose }) => {
+  const [zooms, setZooms] = useState(DEFAULT_CACHE_ZOOMS);
+  const [downloading, setDownloading] = useState<{ courseId: string; progress: DownloadProgress } | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abort.current?.abort(), []);
+
+  const startDownload = async (courseId: string) => {
+    const bounds = courseBounds(history, courseId, position);
+    if (!bounds) return;
+    abort.current = new AbortController();
+    setDownloading({ courseId, progress: { done: 0, total: countAreaTiles(bounds, zooms.minZoom, zooms.maxZoom), failed: 0, bytes: 0 } });
+    try {
+      const area = await downloadArea(courseId, bounds, zooms.minZoom, zooms.maxZoom, progress => setDownloading({ courseId, progress }), abort.current.signal);
+      if (area.tileCount > 0) onDownloaded(area);
+    } catch (e) {
+      console.error(e);
+    }
+    abort.current = null;
+    setDownloading(null);
+  };
+
+  const totalBytes = areas.reduce((s, a) => s + a.bytes, 0);
+  // Areas whose course has gone, e.g. dropped by a restore, still take space and are listed so they can be deleted.
+  const orphaned = areas.filter(a => !courses.some(c => c.id === a.courseId));
+
+  return (
+    <div className="fixed inset-0 z-[5000] flex items-center justify-center p-4 bg-black/80 backdrop-blur-md animate-in fade-in duration-200">
+      <div className="bg-[#0f172a] w-full max-w-sm rounded-[2.5rem] border border-white/10 flex flex-col max-h-[85vh] shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <MapIcon size={20} className="text-blue-400" />
+            <h2 className="text-sm font-black uppercase tracking-widest text-white">Offline Maps</h2>
+          </div>
+          <button onClick={onClose} className="p-2 bg-slate-800 rounded-full text-slate-400 active:scale-95 transition-all"><X size={20} /></button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6 space-y-3 no-scrollbar">
+          <div className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+            <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 block mb-2">Zoom levels to download</span>
+            <div className="flex gap-2">
+              <ZoomStepper label="From" value={zooms.minZoom} min={MIN_CACHE_ZOOM} max={zooms.maxZoom} onChange={minZoom => setZooms(z => ({ ...z, minZoom }))} />
+              <ZoomStepper label="To" value={zooms.maxZoom} min={zooms.minZoom} max={MAX_NATIVE_ZOOM} onChange={maxZoom => setZooms(z => ({ ...z, maxZoom }))} />
+            </div>
+            <p className="text-[9px] font-medium text-slate-500 mt-2">Zoom {MAX_NATIVE_ZOOM} is the sharpest imagery. Each level up roughly quadruples the download. The street map is not saved: its server does not allow it.</p>
+          </div>
+          {courses.length === 0 && <p className="text-center text-[10px] font-medium text-slate-500 py-2">Add a course to download its map area.</p>}
+          {courses.map(course => {
+            const area = areas.find(a => a.courseId === course.id);
+            const bounds = courseBounds(history, course.id, position);
+            const tiles = bounds ? countAreaTiles(bounds, zooms.minZoom, zooms.maxZoom) : 0;
+            const active = downloading?.courseId === course.id ? downloading.progress : null;
+            return (
+              <div key={course.id} className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-[11px] font-black uppercase tracking-widest text-white truncate">{course.name}</span>
+                  {area && !active && <button onClick={() => onDelete(area)} className="p-1.5 text-slate-500 active:scale-95"><Trash2 size={14} /></button>}
+                </div>
+                {area
+                  ? <p className="text-[9px] font-medium text-emerald-400/80">{formatBytes(area.bytes)} · {area.tileCount} tiles · zoom {area.minZoom}–{area.maxZoom} · {new Date(area.downloadedAt).toLocaleDateString()}</p>
+                  : <p className="text-[9px] font-medium text-slate-500">Not saved for offline use</p>}
+                {active ? (
+                  <div className="mt-3">
+                    <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden"><div className="h-full bg-blue-500 transition-all" style={{ width: `${active.total ? active.done / active.total * 100 : 0}%` }} /></div>
+                    <div className="flex items-center justify-between mt-2">
+                      <span className="text-[9px] font-black tabular-nums text-slate-400">{active.done}/{active.total} · {formatBytes(active.bytes)}{active.failed > 0 ? ` · ${active.failed} failed` : ''}</span>
+                      <button onClick={() => abort.current?.abort()} className="text-[8px] font-black uppercase tracking-widest text-amber-400">Cancel</button>
+                    </div>
+                  </div>
+                ) : !bounds ? (
+                  <p className="text-[9px] font-medium text-slate-500 mt-2">Record a track or green here, or wait for a GPS fix on the course, to set the area.</p>
+                ) : (
+                  <button disabled={downloading !== null || tiles > MAX_AREA_TILES} onClick={() => startDownload(course.id)} className="mt-3 w-full py-2.5 bg-blue-600/10 border border-blue-600/20 disabled:opacity-40 rounded-2xl flex items-center justify-center gap-2 active:scale-95 transition-all">
+                    <DownloadCloud size={14} className="text-blue-400" />
+                    <span className="text-[9px] font-black uppercase tracking-widest text-blue-400">{tiles > MAX_AREA_TILES ? `${tiles} tiles · lower the zoom` : `${area ? 'Update' : 'Download'} · ${tiles} tiles`}</span>
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {orphaned.map(area => (
+            <div key={area.courseId} className="bg-white/[0.03] p-4 rounded-3xl border border-white/5">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-[11px] font-black uppercase tracking-widest text-slate-400 truncate">Deleted course</span>
+                <button onClick={() => onDelete(area)} className="p-1.5 text-slate-500 active:scale-95"><Trash2 size={14} /></button>
+              </div>
+              <p className="text-[9px] font-medium text-amber-400/80">{formatBytes(area.bytes)} · {area.tileCount} tiles · zoom {area.minZoom}–{area.maxZoom} · {new Date(area.downloadedAt).toLocaleDateString()}</p>
+            </div>
+          ))}
+        </div>
+        <div className="p-4 border-t border-white/5 text-center">
+          <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Saved maps · {formatBytes(totalBytes)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TileCacheModal;
@@ -1,7 +1,11 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { createRoot } from 'react-dom/client';
-import { MapContainer, TileLayer, CircleMarker, Polyline, Circle, useMap, Polygon } from 'react-leaflet';
+import { MapContainer, CircleMarker, Polyline, Circle, useMap, useMapEvents, Polygon } from 'react-leaflet';
 import * as L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import '@fontsource/open-sans/latin-300.css';
+import '@fontsource/open-sans/latin-600.css';
+import './index.css';
 import { 
   ChevronLeft,
   Navigation2,
@@ -16,6 +20,7 @@ import {
   Anchor,
   Undo2,
   Download,
+  Upload,
   Activity,
   Cpu,
   BookOpen,
@@ -23,40 +28,138 @@ import {
   CheckCircle2,
   Info,
   Home,
-  Type
+  Type,
+  Flag,
+  Crosshair,
+  MoveHorizontal,
+  SlidersHorizontal,
+  DownloadCloud,
+  PenLine,
+  Plus,
+  MousePointerClick,
+  GitCompare
 } from 'lucide-react';
+import { AltimetrySettings, AppView, AveragingSettings, CachedArea, Course, CourseSelection, ExportFormat, ExportOptions, FilterSettings, GeoPoint, LandingZoneSettings, LatLng, MapStyle, ObstacleWorksheet, PressureReading, SavedRecord, UnitSystem } from './types.ts';
+import { createCourse, createTee, defaultSelection, describeRecordLocation, findCourse, generateId, recordsForHole, viewForRecord } from './utils/courseUtils.ts';
+import CoursePanel from './components/CoursePanel.tsx';
+import HoleSummary from './components/HoleSummary.tsx';
+import PlayingLengthPanel from './components/PlayingLengthPanel.tsx';
+import { calculatePlayingLengths } from './utils/ratingCalculator.ts';
+import { calculateArea, calculateBearing, calculateDistance, calculatePerimeter, closesOutline, pathLength } from './utils/geoUtils.ts';
+import { DEFAULT_LANDING_ZONE_SETTINGS, LandingZone, computeLandingZones, trackPath } from './utils/landingZones.ts';
+import LandingZoneLayer from './components/LandingZoneLayer.tsx';
+import ShotProfileModal from './components/ShotProfileModal.tsx';
+import { CentrelineReference, centrelineBearingAt, crossingSkew, getSkewColor } from './utils/fairwayWidth.ts';
+import { approachBearingFromTrack, computeGreenDimensions } from './utils/greenDimensions.ts';
+import GreenDimensionsLayer from './components/GreenDimensionsLayer.tsx';
+import ObstacleWorksheetView from './components/ObstacleWorksheetView.tsx';
+import { downloadFile, readFileText } from './utils/fileUtils.ts';
+import RatingReportView from './components/RatingReportView.tsx';
+import { DEFAULT_FILTER_SETTINGS, createPositionFilter, describeFilter } from './utils/positionFilter.ts';
+import FilterSettingsModal from './components/FilterSettingsModal.tsx';
+import { DEFAULT_AVERAGING_SETTINGS, averageFixes, isAveragingComplete } from './utils/pointAveraging.ts';
+import AveragingOverlay, { AveragingCircle } from './components/AveragingOverlay.tsx';
+import { historyToGPX, parseGPX } from './utils/gpx.ts';
+import ExportModal from './components/ExportModal.tsx';
+import { historyToKML, parseKML } from './utils/kml.ts';
+import { ImportPreview, previewImport } from './utils/importMerge.ts';
+import ImportReviewModal from './components/ImportReviewModal.tsx';
+import { StoredData, deleteRecord, deleteTileArea, deleteWorksheets, loadDatabase, loadTileAreas, putRecords, putSetting, putTileArea, putWorksheet, replaceCourses, replaceDatabase } from './utils/storage.ts';
+import { BackupPreview, RestoreMode, createBackup, previewBackup, readBackup, restoreBackup } from './utils/backup.ts';
+import RestoreModal from './components/RestoreModal.tsx';
+import { deleteAreaTiles } from './utils/tileCache.ts';
+import CachedTileLayer from './components/CachedTileLayer.tsx';
+import TileCacheModal from './components/TileCacheModal.tsx';
+import { registerServiceWorker } from './utils/serviceWorker.ts';
+import { DEFAULT_ALTIMETRY_SETTINGS, applyAltitude, describeAltitudeSource, hasBarometer, recordAltitudeSource, startBarometer } from './utils/altimetry.ts';
+import AltimetryModal from './components/AltimetryModal.tsx';
+import { EditSelection, applyVertices, canDeleteVertex, canFlagSegment, createRevision, deleteVertex, editVertices, insertVertex, isEditable, moveVertex, toggleSegment } from './utils/recordEdit.ts';
+import RecordEditLayer from './components/RecordEditLayer.tsx';
+import { DESK_CLOSE_DISTANCE, deskPoint } from './utils/deskMeasurement.ts';
+import { ComparisonPair, holePairs, pairsFor } from './utils/comparison.ts';
+import ComparisonModal from './components/ComparisonModal.tsx';
+import { computeUncertainty, formatUncertainty, primaryUncertainty, recordUncertainty } from './utils/uncertainty.ts';
+import { bunkerPercent, measureRecord } from './utils/recordMetrics.ts';
+import { primaryValue, secondaryValue } from './utils/recordDisplay.ts';
+import { historyToGeoJSON, parseGeoJSON } from './utils/geojson.ts';
+import { pointsToCSV, recordsToCSV } from './utils/csvExport.ts';
 
 /** --- DOCUMENTATION CONTENT --- **/
 const USER_MANUAL = [
   {
     title: "Quick Start",
     icon: <BookOpen className="text-white-400" />,
-    content: "Scottish Golf v2 is designed to provide an alternative to roadwheels and barometers when rating a course. Ensure 'High Accuracy' location is enabled on your device. For best results, keep the app active and in-hand while walking. The App is web-based, so an internet connection is required to launch, but if you lose connection the App will still work, though you may lose the background mapping."
+    content: "Scottish Golf v2 is designed to provide an alternative to roadwheels and barometers when rating a course. Ensure 'High Accuracy' location is enabled on your device. For best results, keep the app active and in-hand while walking. The App is web-based, so an internet connection is required the first time it is opened; after that it starts without signal and can be added to your home screen from the browser menu. If you lose connection the App will still work, though you may lose the background mapping unless the course has been saved under Offline Maps."
   },
   {
     title: "Distance Tracker",
     icon: <Navigation2 className="text-blue-400" />,
-    content: "Tap 'Start' when you are ready to start tracking the distance. Use 'Pivot' (max 3) at dog-leg corners to measure the true path of the hole. Total distance and elevation change are calculated from the start through all pivots to your current position. GNSS (GPS) is really only accurate to 2m at best, so keep an eye on the Horiz value and the indicative coloured circle around the current location. It shows you the absolute positioning accuracy of the GPS, however, don't confuse this with the accuracy of distance measurements. They will always be better than this as they are relative to each other."
+    content: "Tap 'Start' when you are ready to start tracking the distance. Use 'Pivot' (max 3) at dog-leg corners to measure the true path of the hole. Total distance and elevation change are calculated from the start through all pivots to your current position. The route you actually walk is recorded as a faint breadcrumb trail behind the pivot line, and its length is shown as 'Walked' next to the pivot-to-pivot distance. GNSS (GPS) is really only accurate to 2m at best, so keep an eye on the Horiz value and the indicative coloured circle around the current location. It shows you the absolute positioning accuracy of the GPS, however, don't confuse this with the accuracy of distance measurements. They will always be better than this as they are relative to each other. The ± shown beside each distance, leg, elevation change, width and green area is the app's estimate of how far out that value may be (one standard deviation), worked out from the accuracy of the points that fix it rather than from the accuracy of any one fix; it is saved with the record and included in the history and every export. Desk measurements allow about 1m per tapped point. While tracking, and on saved tracks, the panel also shows the effective playing length for the scratch and bogey golfer (male and female), adjusted for elevation change, with the number of shots each needs to reach the green. Saved tracks show where each golfer's shots land as coloured markers across the line of play (shot lengths can be changed with the crosshair button). Tap a landing zone and choose 'Measure here' to start a new measurement from it."
   },
   {
     title: "Green Mapper",
     icon: <Target className="text-emerald-400" />,
-    content: "Start at any point on the edge of the green. Walk the perimeter. The app automatically 'Closes' the loop when you return to within 1m of your start point, or you can force it to close by hitting the button. Results show total Area and Perimeter length."
+    content: "Start at any point on the edge of the green. Walk the perimeter. The app automatically 'Closes' the loop when you return to within 1m of your start point, or you can force it to close by hitting the button. Results show total Area and Perimeter length. Once closed, the green's length along the line of play, its width and the effective diameter ((L + W) / 2) are shown and drawn on the map. The line of play is taken from the final leg of the latest track on the same hole; if there is none, or it is wrong, tap 'Approach' then tap two points on the map (tail, then head) to draw the approach arrow. L-shaped and two-tier greens are split into two segments, each measured separately, and the effective diameter is their average."
+  },
+  {
+    title: "Fairway Width",
+    icon: <MoveHorizontal className="text-violet-400" />,
+    content: "Stand on one edge of the fairway and tap 'Edge 1', walk straight across and tap 'Edge 2' on the other edge. The width is shown live as you walk and saved when you mark the second edge. 'Off square' shows how many degrees your crossing line is from perpendicular to the hole centreline, taken from the landing zone you started from or the latest track on the selected hole. Aim for under 10°."
   },
   {
     title: "Recording Bunkers",
     icon: <AlertCircle className="text-orange-400" />,
     content: "While walking the green edge, hold the 'Bunker' button when passing a bunker segment and release when you get to the end. This marks those points as sand. The panel will show what percentage of the green's perimeter is guarded by sand."
   },
+  {
+    title: "Courses and Holes",
+    icon: <Flag className="text-blue-400" />,
+    content: "Add a course on the home screen, then pick the hole (1-18) and tee set you are measuring before starting a track or green. Every saved record is filed against that course, hole and tee. White, Yellow and Red tees are created automatically and you can add more. Deleting a course asks first; it removes the course's obstacle worksheets and saved map, and its records stay in history, no longer filed against a hole. 'Hole Summary' lists every hole with its par and all tracks and greens recorded for it, and can be filtered by tee. The clipboard button on each hole opens its obstacle worksheet."
+  },
+  {
+    title: "Obstacle Worksheet",
+    icon: <AlertCircle className="text-amber-400" />,
+    content: "One form per hole, tee and gender covering topography, fairway, green target, recovery & rough, bunkers, crossing hazards, OB/extreme rough, water, trees and green surface. Set the table value for the scratch and bogey golfer with - and +, then tick any adjustments that apply; the final value for each factor and the psychological value are worked out for you. 'Course & Slope Rating' on the Hole Summary rolls the measured hole lengths and the worksheets up into the Course Rating, Bogey Rating and Slope for each tee and gender, with front and back nine totals; export it as a CSV to check against the official submission. Where the app already has data for the hole, the bunker, green target and topography values are suggested from the Green Mapper and the track."
+  },
+  {
+    title: "GPS Filter",
+    icon: <SlidersHorizontal className="text-emerald-400" />,
+    content: "Every GPS fix passes through a filter before it is used. Fixes with poor accuracy, or that would mean you had moved faster than a brisk walk, are thrown away, and the rest are smoothed (Kalman or moving window) so the green outline and track don't jump about. Adjust or switch it off with the sliders button on the map. Each saved record notes the filter settings it was measured with."
+  },
+  {
+    title: "Hold to Average",
+    icon: <Anchor className="text-blue-400" />,
+    content: "Press and hold START, PIVOT or FINISH to average your position instead of taking a single fix. A ring counts down while fixes are gathered; the point is kept when the time runs out, when the precision target is reached, or when you let go. The precision (±) and number of fixes are stored with the point. A quick tap still takes the current position. Set the time and target with the sliders button."
+  },
   {
     title: "Sensor Diagnostics",
     icon: <Cpu className="text-blue-400" />,
-    content: "Blue Light (Barometric): Highest precision elevation using your phone's pressure sensor (if it has one). Emerald Light (GNSS 3D): Standard GPS altitude. Amber Light: Searching for vertical lock."
+    content: "Blue Light (Barometric or Manual hPa): elevation from air pressure, either the phone's pressure sensor where the browser can read it, or readings you type in from a handheld barometer. Emerald Light (GNSS 3D): Standard GPS altitude. Amber Light: Searching for vertical lock. Tap the source name under the elevation to choose the altitude source and calibrate it. Enter today's sea-level pressure, or stand at a benchmark of known height such as the clubhouse, type in its height and tap 'Calibrate here'; this sets the sea-level pressure and corrects the GPS height in one go. With manual pressure, enter the reading at the start and again before finishing. Each saved track notes which altitude source its elevation change came from."
+  },
+  {
+    title: "Desk Mode",
+    icon: <MousePointerClick className="text-blue-400" />,
+    content: "Pre-measure a hole from satellite imagery before visiting the course. Tap the pointer button at the top of the Distance Tracker or Green Mapper to switch desk mode on; the map turns to satellite and stops following your position. On a track, tap the tee for the start, then tap where the leg ends: PIVOT fixes that point and starts the next leg, FINISH saves the track. On a green, tap START GREEN, then tap round the edge; switch BUNKER on for stretches guarded by sand, and tap back on the first point or press CLOSE GREEN to finish. Desk records are marked 'Desk' in the history and exports, have no GPS accuracy or elevation, and can be compared with the values measured on the ground."
+  },
+  {
+    title: "Field vs Reference",
+    icon: <GitCompare className="text-fuchsia-400" />,
+    content: "When a walked track or green has a counterpart measured another way, a desk measurement, a drawing imported from KML or GeoJSON, or a file (e.g. a Garmin GPX) marked as a reference when imported, a Compare button appears on the record and on its hole in the Hole Summary. The comparison draws both over the satellite map, the walked one solid and the reference dashed, and lists the difference in distance and elevation change (and how far apart the starts and finishes are) for tracks, and the difference in area and perimeter, the overlap and the Hausdorff distance for greens. An overlap of 100% and a Hausdorff distance near zero mean the outlines agree. CSV saves every comparison shown, to back up a yardage if a club disputes it. References with no hole are matched to the walked record within 30m of it."
+  },
+  {
+    title: "Editing",
+    icon: <PenLine className="text-blue-400" />,
+    content: "Open a green or track from the history and tap Edit to correct it on the map. Drag any point of the green outline, or the start, pivots and end of a track, to where it should be. Tap a point to select it and delete it, or tap the line between two points to add a point in the middle or, on a green, to mark that stretch as bunker or green. The area, perimeter, bunker percentage and distances update as you go. Save revision keeps the corrected record as a new entry marked 'Rev 2' (and so on) and leaves the original in the history; Cancel puts everything back."
+  },
+  {
+    title: "Offline Maps",
+    icon: <DownloadCloud className="text-emerald-400" />,
+    content: "Before visiting a course with poor signal, open Offline Maps on the home screen while on Wi-Fi and download the course. The satellite map is saved for the area around everything recorded on that course, or around your current position for a new course, at the zoom levels you choose. Saved tiles are used first whenever the map is drawn, with or without a connection. The street map is not saved, as its server does not allow bulk downloads, so use Satellite without signal. The list shows how much space each course takes, and the bin icon deletes it."
   },
   {
     title: "Data export",
     icon: <BookOpen className="text-yellow-400" />,
-    content: "Whenever you save a track or green area, the data appears at the bottom of the homescreen. Select a result and it will show you the results again. Hitting the bin icon will delete an individual record. You can also save all results to a KML file, which will be stored in your downloads folder. The filename will be the current date and time. KML files can be opened in GIS packages, such as Google Earth or Google Maps for analysis and archiving purposes."
+    content: "Whenever you save a track or green area, the data appears at the bottom of the homescreen. Select a result and it will show you the results again. Hitting the bin icon will delete an individual record. You can also save all results to a KML or GPX file, which will be stored in your downloads folder. The filename will be the current date and time. KML files can be opened in GIS packages, such as Google Earth or Google Maps for analysis and archiving purposes; bunkers and the walked path are drawn as in the app, and tapping a shape shows all its measurements. GPX files suit handheld GPS units. GeoJSON files carry every measured value as attributes for GIS packages such as QGIS. CSV export writes two spreadsheet files, one row per record and one row per point. Any export can be limited to one course and written in yards or metres. Import reads GPX, KML and GeoJSON files back in: the app's own exports restore a lost history, GPX tracks recorded on a Garmin can be compared with the app's measurements, and shapes drawn in Google Earth come in as reference outlines. Records already in the history are spotted and skipped unless you choose to import them all. Full backup, at the foot of the export list, saves every record, course, worksheet and setting to one file; import that file on a new phone to merge it with what is there or replace everything with it."
   },
   {
     title: "Help and suggestions",
@@ -65,62 +168,12 @@ const USER_MANUAL = [
   }
 ];
 
-/** --- TYPES --- **/
-type AppView = 'landing' | 'track' | 'green';
-type UnitSystem = 'Yards' | 'Metres';
-
-interface GeoPoint {
-  lat: number;
-  lng: number;
-  alt: number | null;
-  accuracy: number;
-  altAccuracy: number | null;
-  timestamp: number;
-  type?: 'green' | 'bunker';
-}
-
-interface SavedRecord {
-  id: string;
-  type: 'Track' | 'Green';
-  date: number;
-  primaryValue: string;
-  secondaryValue?: string;
-  points: GeoPoint[];
-  pivots?: GeoPoint[];
-}
-
 /** --- UTILITIES --- **/
-const calculateDistance = (p1: {lat: number, lng: number}, p2: {lat: number, lng: number}): number => {
-  const R = 6371e3;
-  const lat1 = p1.lat * Math.PI / 180;
-  const lat2 = p2.lat * Math.PI / 180;
-  const Δφ = (p2.lat - p1.lat) * Math.PI / 180;
-  const Δλ = (p2.lng - p1.lng) * Math.PI / 180;
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(lat1) * Math.cos(lat2) *
-    Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-};
-
-const calculateArea = (points: GeoPoint[]): number => {
-  if (points.length < 3) return 0;
-  const R = 6371e3;
-  const lat0 = points[0].lat * Math.PI / 180;
-  const coords = points.map(p => ({
-    x: p.lng * Math.PI / 180 * R * Math.cos(lat0),
-    y: p.lat * Math.PI / 180 * R
-  }));
-  let area = 0;
-  for (let i = 0; i < coords.length; i++) {
-    const j = (i + 1) % coords.length;
-    area += coords[i].x * coords[j].y - coords[j].x * coords[i].y;
-  }
-  return Math.abs(area) / 2;
-};
+const BREADCRUMB_SPACING = 0.2; // metres between recorded breadcrumb fixes
 
 const formatDist = (m: number, u: UnitSystem) => (m * (u === 'Metres' ? 1 : 1.09361)).toFixed(1);
 const formatAlt = (m: number, u: UnitSystem) => (m * (u === 'Metres' ? 1 : 3.28084)).toFixed(1);
+const formatSignedAlt = (m: number, u: UnitSystem) => (m >= 0 ? '+' : '') + formatAlt(m, u);
 
 const getAccuracyColor = (acc: number) => {
   if (acc < 3.5) return '#10b981'; 
@@ -128,44 +181,6 @@ const getAccuracyColor = (acc: number) => {
   return '#ef4444';
 };
 
-const getFormattedTimestamp = () => {
-  const now = new Date();
-  const pad = (n: number) => n.toString().padStart(2, '0');
-  const y = now.getFullYear();
-  const m = pad(now.getMonth() + 1);
-  const d = pad(now.getDate());
-  const h = pad(now.getHours());
-  const min = pad(now.getMinutes());
-  const s = pad(now.getSeconds());
-  return `${y}${m}${d}-${h}${min}${s}`;
-};
-
-const exportToKML = (history: SavedRecord[]) => {
-  if (history.length === 0) return;
-  const kmlHeader = `<?xml version="1.0" encoding="UTF-8"?><kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Golf Toolkit Export</name><Style id="trackStyle"><LineStyle><color>ffff0000</color><width>4</width></LineStyle></Style><Style id="greenStyle"><PolyStyle><color>4d00ff00</color><fill>1</fill><outline>1</outline></PolyStyle><LineStyle><color>ff00ff00</color><width>2</width></LineStyle></Style>`;
-  const kmlFooter = `</Document></kml>`;
-  const placemarks = history.map(item => {
-    const dateStr = new Date(item.date).toLocaleString();
-    if (item.type === 'Track') {
-      const allPoints = [item.points[0], ...(item.pivots || []), item.points[1]];
-      const coords = allPoints.map(p => `${p.lng},${p.lat},${p.alt || 0}`).join(' ');
-      return `<Placemark><name>Track: ${item.primaryValue}</name><description>Date: ${dateStr}</description><styleUrl>#trackStyle</styleUrl><LineString><altitudeMode>clampToGround</altitudeMode><coordinates>${coords}</coordinates></LineString></Placemark>`;
-    } else {
-      const coords = [...item.points, item.points[0]].map(p => `${p.lng},${p.lat},${p.alt || 0}`).join(' ');
-      return `<Placemark><name>Green: ${item.primaryValue}</name><description>Date: ${dateStr}</description><styleUrl>#greenStyle</styleUrl><Polygon><altitudeMode>clampToGround</altitudeMode><outerBoundaryIs><LinearRing><coordinates>${coords}</coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark>`;
-    }
-  }).join('');
-  const kmlContent = kmlHeader + placemarks + kmlFooter;
-  const blob = new Blob([kmlContent], { type: 'application/vnd.google-earth.kml+xml' });
-  const url = URL.createObjectURL(blob);
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `golf-export-${getFormattedTimestamp()}.kml`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-};
-
 /** --- COMPONENTS --- **/
 
 const ManualModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
@@ -262,6 +277,7 @@ const MapController: React.FC<{
   const map = useMap();
   const centeredOnce = useRef(false);
   const fittedCompleted = useRef(false);
+  const fittedRecord = useRef<string | null>(null);
   useEffect(() => {
     const interval = setInterval(() => map.invalidateSize(), 1000);
     return () => clearInterval(interval);
@@ -269,11 +285,15 @@ const MapController: React.FC<{
   useEffect(() => { if (active) fittedCompleted.current = false; }, [active]);
   useEffect(() => {
     if (viewingRecord && viewingRecord.points.length > 0) {
+      // Fit once per record, so the next fix or an edit to the record does not undo the user's panning and zooming.
+      if (fittedRecord.current === viewingRecord.id) return;
       const bounds = L.latLngBounds(viewingRecord.points.map(p => [p.lat, p.lng]));
       if (viewingRecord.pivots) viewingRecord.pivots.forEach(pv => bounds.extend([pv.lat, pv.lng]));
       map.fitBounds(bounds, { padding: [50, 50], animate: true });
+      fittedRecord.current = viewingRecord.id;
       return;
     }
+    fittedRecord.current = null;
     if (completed && mode === 'green' && mapPoints.length > 2) {
       if (!fittedCompleted.current) {
         const bounds = L.latLngBounds(mapPoints.map(p => [p.lat, p.lng]));
@@ -301,6 +321,11 @@ const MapController: React.FC<{
   return null;
 };
 
+const MapTapHandler: React.FC<{ onTap: (p: LatLng) => void }> = ({ onTap }) => {
+  useMapEvents({ click: (e) => onTap({ lat: e.latlng.lat, lng: e.latlng.lng }) });
+  return null;
+};
+
 const ConfirmDialogue: React.FC<{ 
   title: string, message: string, onConfirm: () => void, onCancel: () => void, confirmLabel?: string
 }> = ({ title, message, onConfirm, onCancel, confirmLabel = "Confirm" }) => (
@@ -323,15 +348,43 @@ const ConfirmDialogue: React.FC<{
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>('landing');
   const [units, setUnits] = useState<UnitSystem>('Yards');
-  const [mapStyle, setMapStyle] = useState<'Street' | 'Satellite'>('Satellite');
+  const [mapStyle, setMapStyle] = useState<MapStyle>('Satellite');
   const [pos, setPos] = useState<GeoPoint | null>(null);
   const [history, setHistory] = useState<SavedRecord[]>([]);
   const [viewingRecord, setViewingRecord] = useState<SavedRecord | null>(null);
   const [showManual, setShowManual] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [restorePreview, setRestorePreview] = useState<BackupPreview | null>(null);
+  const [showTileCache, setShowTileCache] = useState(false);
+  const [tileAreas, setTileAreas] = useState<CachedArea[]>([]);
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [selection, setSelection] = useState<CourseSelection>(defaultSelection(null));
+  const [zoneSettings, setZoneSettings] = useState<LandingZoneSettings>(DEFAULT_LANDING_ZONE_SETTINGS);
+  const [showZoneSettings, setShowZoneSettings] = useState(false);
+  const [selectedZone, setSelectedZone] = useState<LandingZone | null>(null);
+  const [worksheets, setWorksheets] = useState<ObstacleWorksheet[]>([]);
+  const [filterSettings, setFilterSettings] = useState<FilterSettings>(DEFAULT_FILTER_SETTINGS);
+  const [showFilterSettings, setShowFilterSettings] = useState(false);
+  const positionFilter = useRef(createPositionFilter(DEFAULT_FILTER_SETTINGS));
+  const [averagingSettings, setAveragingSettings] = useState<AveragingSettings>(DEFAULT_AVERAGING_SETTINGS);
+  const [altimetrySettings, setAltimetrySettings] = useState<AltimetrySettings>(DEFAULT_ALTIMETRY_SETTINGS);
+  const [pressureReading, setPressureReading] = useState<PressureReading | null>(null);
+  const [showAltimetry, setShowAltimetry] = useState(false);
+  // The position watch is set up once, so it reads the altimetry state through refs.
+  const altimetry = useRef({ settings: DEFAULT_ALTIMETRY_SETTINGS, reading: null as PressureReading | null });
+  const gnssAltitude = useRef<number | null>(null);
+  const [averaging, setAveraging] = useState<{ target: 'start' | 'pivot' | 'end'; startedAt: number; fixes: GeoPoint[] } | null>(null);
+  const [averagingNow, setAveragingNow] = useState(0);
 
   const [trkActive, setTrkActive] = useState(false);
   const [trkStart, setTrkStart] = useState<GeoPoint | null>(null);
   const [trkPivots, setTrkPivots] = useState<GeoPoint[]>([]);
+  const [trkPath, setTrkPath] = useState<GeoPoint[]>([]);
+  const [trkEnd, setTrkEnd] = useState<GeoPoint | null>(null);
   const [showEndConfirm, setShowEndConfirm] = useState(false);
 
   const [mapActive, setMapActive] = useState(false);
@@ -339,16 +392,61 @@ const App: React.FC = () => {
   const [mapPoints, setMapPoints] = useState<GeoPoint[]>([]);
   const [isBunker, setIsBunker] = useState(false);
   const [showMapRestartConfirm, setShowMapRestartConfirm] = useState(false);
+  const [courseToDelete, setCourseToDelete] = useState<Course | null>(null);
+
+  // Desk mode: track and green points come from taps on the imagery instead of the position watch.
+  const [deskMode, setDeskMode] = useState(false);
+  // The tapped end of the current leg, standing in for the live position in desk mode.
+  const [deskHead, setDeskHead] = useState<GeoPoint | null>(null);
+
+  const [widthStart, setWidthStart] = useState<GeoPoint | null>(null);
+  const [widthEnd, setWidthEnd] = useState<GeoPoint | null>(null);
+  const [widthRef, setWidthRef] = useState<CentrelineReference | null>(null);
+
+  const [lastGreenId, setLastGreenId] = useState<string | null>(null);
+  const [approachDraft, setApproachDraft] = useState<LatLng[] | null>(null);
+  // While a record is edited, `viewingRecord` holds the edited copy and this holds the record as saved.
+  const [editOriginal, setEditOriginal] = useState<SavedRecord | null>(null);
+  const [editSelection, setEditSelection] = useState<EditSelection | null>(null);
+  const [comparePairs, setComparePairs] = useState<ComparisonPair[] | null>(null);
+
+  /**
+   * Puts stored data into state. With `keepCurrent`, records, courses and worksheets created before the data arrived
+   * (a record saved while the first load was still running, say) are kept beside it rather than dropped. Without it the
+   * data replaces what is running, so a setting it does not carry goes back to its default, as it would on a reload.
+   */
+  const applyStoredData = (data: StoredData, keepCurrent = false) => {
+    const merge = <T extends { id: string }>(stored: T[], order?: (a: T, b: T) => number) => (current: T[]) => {
+      if (!keepCurrent) return stored;
+      const merged = [...stored, ...current.filter(c => !stored.some(s => s.id === c.id))];
+      return order ? merged.sort(order) : merged;
+    };
+    setHistory(merge(data.records, (a, b) => b.date - a.date));
+    setCourses(merge(data.courses, (a, b) => a.createdAt - b.createdAt));
+    setWorksheets(merge(data.worksheets));
+    const { settings } = data;
+    if (settings.selection || !keepCurrent) setSelection(settings.selection || defaultSelection(null));
+    if (settings.zones || !keepCurrent) setZoneSettings(settings.zones || DEFAULT_LANDING_ZONE_SETTINGS);
+    if (settings.filter || !keepCurrent) setFilterSettings({ ...DEFAULT_FILTER_SETTINGS, ...settings.filter });
+    if (settings.averaging || !keepCurrent) setAveragingSettings({ ...DEFAULT_AVERAGING_SETTINGS, ...settings.averaging });
+    if (settings.altimetry || !keepCurrent) setAltimetrySettings({ ...DEFAULT_ALTIMETRY_SETTINGS, ...settings.altimetry });
+  };
 
   useEffect(() => {
-    const saved = localStorage.getItem('golf_pro_caddy_final');
-    if (saved) { try { setHistory(JSON.parse(saved)); } catch (e) { console.error(e); } }
+    loadDatabase().then(data => applyStoredData(data, true)).catch(e => console.error(e));
+    loadTileAreas().then(setTileAreas).catch(e => console.error(e));
+    registerServiceWorker(apply => setApplyUpdate(() => apply));
     if (!navigator.geolocation) return;
     const watch = navigator.geolocation.watchPosition(
       (p) => {
-        setPos({
-          lat: p.coords.latitude, lng: p.coords.longitude, alt: p.coords.altitude, accuracy: p.coords.accuracy, altAccuracy: p.coords.altitudeAccuracy, timestamp: Date.now()
-        });
+        const raw: GeoPoint = { lat: p.coords.latitude, lng: p.coords.longitude, alt: p.coords.altitude, accuracy: p.coords.accuracy, altAccuracy: p.coords.altitudeAccuracy, timestamp: Date.now() };
+        const filtered = positionFilter.current.push(raw);
+        if (!filtered) return;
+        const { settings, reading } = altimetry.current;
+        gnssAltitude.current = filtered.alt;
+        setPos(applyAltitude(filtered, settings, reading));
+        // Averaging takes the raw fixes that passed screening; smoothed ones are correlated and would overstate the precision.
+        setAveraging(a => a ? { ...a, fixes: [...a.fixes, applyAltitude(raw, settings, reading)] } : a);
       },
       (e) => console.warn(e),
       { enableHighAccuracy: true, maximumAge: 0, timeout: 20000 }
@@ -356,91 +454,474 @@ const App: React.FC = () => {
     return () => navigator.geolocation.clearWatch(watch);
   }, []);
 
+  useEffect(() => { positionFilter.current = createPositionFilter(filterSettings); }, [filterSettings]);
+
+  useEffect(() => { altimetry.current = { settings: altimetrySettings, reading: pressureReading }; }, [altimetrySettings, pressureReading]);
+
+  useEffect(() => {
+    if (altimetrySettings.source !== 'barometer') return;
+    const stop = startBarometer(setPressureReading);
+    return () => { if (stop) stop(); };
+  }, [altimetrySettings.source]);
+
+  const updateAltimetry = (next: AltimetrySettings, manualPressure: number | null) => {
+    const reading: PressureReading | null = manualPressure !== null ? { pressure: manualPressure, source: 'manual', timestamp: Date.now() } : pressureReading;
+    setAltimetrySettings(next);
+    putSetting('altimetry', next).catch(e => console.error(e));
+    setPressureReading(reading);
+    // Show the new calibration now rather than at the next fix.
+    if (pos) setPos(applyAltitude({ ...pos, alt: gnssAltitude.current }, next, reading));
+    setShowAltimetry(false);
+  };
+
+  const updateFilterSettings = (next: FilterSettings, nextAveraging: AveragingSettings) => {
+    setFilterSettings(next);
+    putSetting('filter', next).catch(e => console.error(e));
+    setAveragingSettings(nextAveraging);
+    putSetting('averaging', nextAveraging).catch(e => console.error(e));
+    setShowFilterSettings(false);
+  };
+
   const areaMetrics = useMemo(() => {
     if (mapPoints.length < 2) return null;
-    let perimeter = 0; let bunkerLength = 0;
-    for (let i = 0; i < mapPoints.length - 1; i++) {
-      const d = calculateDistance(mapPoints[i], mapPoints[i+1]);
-      perimeter += d; if (mapPoints[i+1].type === 'bunker') bunkerLength += d;
-    }
     const isClosed = mapCompleted || (mapPoints.length > 2 && calculateDistance(mapPoints[mapPoints.length - 1], mapPoints[0]) < 1.0);
-    if (isClosed && mapPoints.length > 2) perimeter += calculateDistance(mapPoints[mapPoints.length-1], mapPoints[0]);
+    const { perimeter, bunkerLength } = calculatePerimeter(mapPoints, isClosed);
     return { area: calculateArea(mapPoints), perimeter, bunkerLength, bunkerPct: perimeter > 0 ? Math.round((bunkerLength / perimeter) * 100) : 0 };
   }, [mapPoints, mapCompleted]);
 
-  const saveRecord = useCallback((record: Omit<SavedRecord, 'id' | 'date'>) => {
-    const newRecord: SavedRecord = { ...record, id: Math.random().toString(36).substr(2, 9), date: Date.now() };
-    const updated = [newRecord, ...history];
-    setHistory(updated);
-    localStorage.setItem('golf_pro_caddy_final', JSON.stringify(updated));
-  }, [history]);
+  const activeCourse = findCourse(courses, selection.courseId);
+
+  const updateCourses = useCallback((updated: Course[]) => {
+    setCourses(updated);
+    replaceCourses(updated).catch(e => console.error(e));
+  }, []);
+
+  const updateSelection = useCallback((next: CourseSelection) => {
+    setSelection(next);
+    putSetting('selection', next).catch(e => console.error(e));
+  }, []);
+
+  const updateZoneSettings = (next: LandingZoneSettings) => {
+    setZoneSettings(next);
+    putSetting('zones', next).catch(e => console.error(e));
+    setShowZoneSettings(false);
+  };
+
+  const saveWorksheet = (sheet: ObstacleWorksheet) => {
+    const updated = [sheet, ...worksheets.filter(w => w.id !== sheet.id)];
+    setWorksheets(updated);
+    putWorksheet(sheet).catch(e => console.error(e));
+  };
+
+  const addCourse = (name: string) => {
+    const course = createCourse(name);
+    updateCourses([...courses, course]);
+    updateSelection(defaultSelection(course));
+  };
+
+  /** Removes a course with its worksheets and saved map. Its records stay in history, no longer filed against a hole or tee. */
+  const deleteCourse = (id: string) => {
+    const remaining = courses.filter(c => c.id !== id);
+    updateCourses(remaining);
+    if (selection.courseId === id) updateSelection(defaultSelection(remaining[0] || null));
+    const filed = history.filter(h => h.courseId === id);
+    if (filed.length) {
+      const unfiled = filed.map(({ courseId, holeNumber, teeId, ...rest }) => rest);
+      setHistory(history.map(h => unfiled.find(u => u.id === h.id) || h));
+      putRecords(unfiled).catch(e => console.error(e));
+    }
+    const sheets = worksheets.filter(w => w.courseId === id);
+    if (sheets.length) {
+      setWorksheets(worksheets.filter(w => w.courseId !== id));
+      deleteWorksheets(sheets.map(w => w.id)).catch(e => console.error(e));
+    }
+    const area = tileAreas.find(a => a.courseId === id);
+    if (area) removeTileArea(area);
+  };
+
+  const describeCourseDeletion = (course: Course) => {
+    const records = history.filter(h => h.courseId === course.id).length;
+    const sheets = worksheets.filter(w => w.courseId === course.id).length;
+    return `"${course.name}", its tees, pars${sheets ? `, ${sheets} obstacle worksheet${sheets === 1 ? '' : 's'}` : ''} and any saved map are deleted.${records ? ` Its ${records} record${records === 1 ? '' : 's'} stay${records === 1 ? 's' : ''} in history, no longer filed against a hole or tee.` : ''}`;
+  };
+
+  const addTee = (name: string, colour: string) => {
+    if (!activeCourse) return;
+    const tee = createTee(name, colour);
+    updateCourses(courses.map(c => c.id === activeCourse.id ? { ...c, tees: [...c.tees, tee] } : c));
+    updateSelection({ ...selection, teeId: tee.id });
+  };
+
+  const setHolePar = (holeNumber: number, par: number | null) => {
+    if (!activeCourse) return;
+    updateCourses(courses.map(c => c.id === activeCourse.id ? { ...c, holes: c.holes.map(h => h.number === holeNumber ? { ...h, par } : h) } : c));
+  };
+
+  const saveRecord = useCallback((record: Omit<SavedRecord, 'id' | 'date' | 'measured'>) => {
+    const filing = activeCourse ? { courseId: activeCourse.id, holeNumber: selection.holeNumber, teeId: selection.teeId ?? undefined } : {};
+    const newRecord: SavedRecord = { ...record, ...filing, measured: measureRecord(record), uncertainty: computeUncertainty(record, filterSettings.sharedVariance), filter: record.desk ? undefined : filterSettings, id: Math.random().toString(36).substr(2, 9), date: Date.now() };
+    setHistory([newRecord, ...history]);
+    putRecords([newRecord]).catch(e => console.error(e));
+    return newRecord;
+  }, [history, activeCourse, selection, filterSettings]);
+
+  const updateRecord = useCallback((record: SavedRecord) => {
+    setHistory(history.map(h => h.id === record.id ? record : h));
+    putRecords([record]).catch(e => console.error(e));
+    if (viewingRecord?.id === record.id) setViewingRecord(record);
+  }, [history, viewingRecord]);
+
+  // The latest track on the selected hole, preferring the selected tee. Gives the centreline and approach direction.
+  const holeTrack = useMemo(() => {
+    if (!activeCourse) return null;
+    const byTee = recordsForHole(history, activeCourse.id, selection.holeNumber, selection.teeId).find(r => r.type === 'Track');
+    return byTee || recordsForHole(history, activeCourse.id, selection.holeNumber).find(r => r.type === 'Track') || null;
+  }, [history, activeCourse, selection]);
 
   const finalizeMapping = useCallback(() => {
     if (areaMetrics) {
-      saveRecord({
+      const approach = holeTrack ? approachBearingFromTrack(holeTrack) : null;
+      const saved = saveRecord({
         type: 'Green',
-        primaryValue: Math.round(areaMetrics.area * (units === 'Yards' ? 1.196 : 1)) + (units === 'Yards' ? 'yd²' : 'm²'),
-        secondaryValue: `Bunker: ${areaMetrics.bunkerPct}%`,
-        points: mapPoints
+        points: mapPoints,
+        dimensions: (approach !== null && computeGreenDimensions(mapPoints, approach, 'track')) || undefined,
+        desk: deskMode || undefined
       });
+      setLastGreenId(saved.id);
     }
     setMapActive(false);
     setMapCompleted(true);
-  }, [areaMetrics, mapPoints, units, saveRecord]);
+  }, [areaMetrics, mapPoints, saveRecord, holeTrack, deskMode]);
+
+  const startEdit = () => {
+    if (!viewingRecord || !isEditable(viewingRecord)) return;
+    setEditOriginal(viewingRecord);
+    setEditSelection(null);
+    setApproachDraft(null);
+  };
+
+  const applyEdit = (vertices: GeoPoint[], selection: EditSelection | null = editSelection) => {
+    if (!editOriginal) return;
+    setViewingRecord(applyVertices(editOriginal, vertices, zoneSettings.profiles));
+    setEditSelection(selection);
+  };
+
+  const cancelEdit = () => {
+    if (editOriginal) setViewingRecord(editOriginal);
+    setEditOriginal(null);
+    setEditSelection(null);
+  };
+
+  const saveEdit = () => {
+    if (!editOriginal || !viewingRecord) return;
+    const revision = createRevision(editOriginal, viewingRecord);
+    setHistory([revision, ...history]);
+    putRecords([revision]).catch(e => console.error(e));
+    setEditOriginal(null);
+    setEditSelection(null);
+    setViewingRecord(revision);
+  };
+
+  // Leaving the record (new measurement, another record from history) drops an unsaved edit.
+  useEffect(() => {
+    if (editOriginal && viewingRecord?.id !== editOriginal.id) {
+      setEditOriginal(null);
+      setEditSelection(null);
+    }
+  }, [viewingRecord, editOriginal]);
+
+  // Desk or reference measurements of the record on screen, or the walked records it is a reference for.
+  const viewingPairs = useMemo(() => viewingRecord && !editOriginal ? pairsFor(history, viewingRecord) : [], [history, viewingRecord, editOriginal]);
+
+  // The saved green on screen: either one opened from history or the one just closed.
+  const shownGreen = viewingRecord?.type === 'Green' ? viewingRecord : (mapCompleted ? history.find(r => r.id === lastGreenId) || null : null);
+
+  const tapApproachPoint = (p: LatLng) => {
+    if (!approachDraft || !shownGreen) return;
+    const draft = [...approachDraft, p];
+    if (draft.length < 2) { setApproachDraft(draft); return; }
+    const arrow: [LatLng, LatLng] = [draft[0], draft[1]];
+    const dims = computeGreenDimensions(shownGreen.points, calculateBearing(arrow[0], arrow[1]), 'arrow');
+    if (dims) updateRecord({ ...shownGreen, dimensions: { ...dims, approachArrow: arrow } });
+    setApproachDraft(null);
+  };
 
   useEffect(() => {
-    if (mapActive && pos) {
+    if (mapActive && pos && !deskMode) {
       setMapPoints(prev => {
         const last = prev[prev.length - 1];
         if (!last || calculateDistance(last, pos) >= 0.5) return [...prev, { ...pos, type: isBunker ? 'bunker' : 'green' }];
         return prev;
       });
-      if (mapPoints.length > 5 && areaMetrics && areaMetrics.perimeter > 5 && calculateDistance(pos, mapPoints[0]) < 1.0) finalizeMapping();
+      if (closesOutline(mapPoints, pos, 1.0)) finalizeMapping();
     }
-  }, [pos, mapActive, isBunker, areaMetrics, finalizeMapping]);
+  }, [pos, mapActive, isBunker, areaMetrics, finalizeMapping, deskMode]);
+
+  const exportHistory = (format: ExportFormat, options: ExportOptions) => {
+    const records = options.courseId ? history.filter(r => r.courseId === options.courseId) : history;
+    if (format === 'kml') downloadFile(historyToKML(records, options.units, courses), 'application/vnd.google-earth.kml+xml', 'golf-export', 'kml');
+    else if (format === 'gpx') downloadFile(historyToGPX(records, options.units), 'application/gpx+xml', 'golf-export', 'gpx');
+    else if (format === 'geojson') downloadFile(historyToGeoJSON(records), 'application/geo+json', 'golf-export', 'geojson');
+    else {
+      // Byte order mark so Excel reads the ² and ° in the headers as UTF-8.
+      downloadFile('\uFEFF' + recordsToCSV(records, options.units, courses), 'text/csv', 'golf-records', 'csv');
+      downloadFile('\uFEFF' + pointsToCSV(records, options.units, courses), 'text/csv', 'golf-points', 'csv');
+    }
+    setShowExport(false);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const text = await readFileText(file);
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      const backup = extension === 'json' ? readBackup(text, file.name) : null;
+      if (backup) {
+        setRestorePreview(previewBackup(file.name, backup, history));
+        return;
+      }
+      const parse = extension === 'gpx' ? parseGPX : extension === 'kml' ? parseKML : extension === 'geojson' || extension === 'json' ? parseGeoJSON : null;
+      if (!parse) throw new Error(`${file.name}: only GPX, KML and GeoJSON files can be imported`);
+      setImportPreview(previewImport(file.name, parse(text, file.name, zoneSettings.profiles), history));
+    } catch (e) {
+      console.error(e);
+      setImportNotice(e instanceof Error ? e.message : `Could not read ${file.name}`);
+    }
+  };
+
+  const applyImport = (records: SavedRecord[]) => {
+    // Restored records keep their ids, so a duplicate imported anyway needs a fresh one.
+    const added = records
+      .map(r => history.some(h => h.id === r.id) ? { ...r, id: generateId() } : r)
+      .map(r => r.uncertainty ? r : { ...r, uncertainty: computeUncertainty(r, r.filter?.sharedVariance) });
+    setHistory([...added, ...history]);
+    putRecords(added).catch(e => console.error(e));
+    setImportNotice(`Imported ${records.length} record${records.length === 1 ? '' : 's'} from ${importPreview?.fileName}`);
+    setImportPreview(null);
+  };
+
+  const currentData = (): StoredData => ({
+    records: history,
+    courses,
+    worksheets,
+    settings: { selection, zones: zoneSettings, filter: filterSettings, averaging: averagingSettings, altimetry: altimetrySettings }
+  });
+
+  const backupDatabase = () => {
+    downloadFile(createBackup(currentData()), 'application/json', 'golf-backup', 'json');
+    setShowExport(false);
+  };
+
+  const applyRestore = async (mode: RestoreMode) => {
+    if (!restorePreview) return;
+    const next = restoreBackup(currentData(), restorePreview.backup, mode);
+    try {
+      await replaceDatabase(next);
+      applyStoredData(next);
+      setViewingRecord(null);
+      setImportNotice(`${mode === 'replace' ? 'Replaced with' : 'Merged'} ${restorePreview.fileName}: ${next.records.length} records, ${next.courses.length} courses`);
+    } catch (e) {
+      console.error(e);
+      setImportNotice(`Could not restore ${restorePreview.fileName}; nothing was changed`);
+    }
+    setRestorePreview(null);
+  };
+
+  const saveTileArea = (area: CachedArea) => {
+    const previous = tileAreas.find(a => a.courseId === area.courseId);
+    const updated = [...tileAreas.filter(a => a !== previous), area];
+    // A new zoom range can leave tiles of the old download behind, so drop those nothing else covers.
+    if (previous) deleteAreaTiles(previous, updated).catch(e => console.error(e));
+    setTileAreas(updated);
+    putTileArea(area).catch(e => console.error(e));
+  };
+
+  const removeTileArea = (area: CachedArea) => {
+    setTileAreas(tileAreas.filter(a => a !== area));
+    deleteAreaTiles(area, tileAreas).catch(e => console.error(e));
+    deleteTileArea(area.courseId).catch(e => console.error(e));
+  };
 
   const deleteHistory = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    const updated = history.filter(h => h.id !== id);
-    setHistory(updated);
-    localStorage.setItem('golf_pro_caddy_final', JSON.stringify(updated));
+    setHistory(history.filter(h => h.id !== id));
+    deleteRecord(id).catch(e => console.error(e));
     if (viewingRecord?.id === id) setViewingRecord(null);
   };
 
+  // An averaged finish point stands in for the live position until the track is saved or the finish is cancelled.
+  const trkHead = trkEnd || (deskMode ? deskHead : pos);
+
   const currentLegDist = useMemo(() => {
-    if (!pos || !trkStart) return 0;
+    if (!trkHead || !trkStart) return 0;
     const lastPivot = trkPivots[trkPivots.length - 1];
-    return calculateDistance(lastPivot || trkStart, pos);
-  }, [pos, trkStart, trkPivots]);
+    return calculateDistance(lastPivot || trkStart, trkHead);
+  }, [trkHead, trkStart, trkPivots]);
+
+  // The leg in progress while tracking; an open record shows its stored last leg instead.
+  const viewedLegs = viewingRecord?.type === 'Track' ? viewingRecord.measured.legs ?? [] : [];
+  const shownLeg = viewingRecord ? (viewedLegs.length > 1 ? viewedLegs[viewedLegs.length - 1] : null) : (trkPivots.length > 0 ? currentLegDist : null);
 
   const accumulatedDist = useMemo(() => {
-    if (!trkStart || !pos) return 0;
+    if (!trkStart || !trkHead) return 0;
     let total = 0, lastPoint = trkStart;
     trkPivots.forEach(pivot => { total += calculateDistance(lastPoint, pivot); lastPoint = pivot; });
-    total += calculateDistance(lastPoint, pos);
+    total += calculateDistance(lastPoint, trkHead);
     return total;
-  }, [trkStart, trkPivots, pos]);
+  }, [trkStart, trkPivots, trkHead]);
+
+  useEffect(() => {
+    if (!trkActive || !pos || deskMode) return;
+    setTrkPath(prev => {
+      const last = prev[prev.length - 1];
+      if (last && calculateDistance(last, pos) < BREADCRUMB_SPACING) return prev;
+      return [...prev, pos];
+    });
+  }, [pos, trkActive, deskMode]);
+
+  const walkedDist = useMemo(() => pathLength(viewingRecord?.type === 'Track' ? (viewingRecord.path || []) : trkPath), [viewingRecord, trkPath]);
+
+  const elevDelta = (trkHead && trkStart && trkHead.alt !== null && trkStart.alt !== null) ? (trkHead.alt - trkStart.alt) : 0;
 
-  const elevDelta = (pos && trkStart && pos.alt !== null && trkStart.alt !== null) ? (pos.alt - trkStart.alt) : 0;
+  const playingLengths = useMemo(() => trkActive && trkStart && trkHead ? calculatePlayingLengths(accumulatedDist, elevDelta, zoneSettings.profiles) : null, [trkActive, trkStart, trkHead, accumulatedDist, elevDelta, zoneSettings]);
+
+  const landingZones = useMemo(() => viewingRecord?.type === 'Track' ? computeLandingZones(trackPath(viewingRecord), zoneSettings.profiles) : [], [viewingRecord, zoneSettings]);
+
+  useEffect(() => setSelectedZone(null), [viewingRecord]);
+
+  const shownStart = viewingRecord?.type === 'Track' ? viewingRecord.points[0] : trkStart;
+  const averagedPoint = useMemo(() => averaging ? averageFixes(averaging.fixes) : null, [averaging]);
+  const averagingElapsed = averaging ? Math.max(0, (averagingNow - averaging.startedAt) / 1000) : 0;
+
+  const beginAveraging = (target: 'start' | 'pivot' | 'end') => {
+    setAveraging({ target, startedAt: Date.now(), fixes: [] });
+    setAveragingNow(Date.now());
+  };
+
+  /** Ends a "hold to average" capture and applies the point. Released before any fix arrived, it falls back to the current position. */
+  const completeAveraging = useCallback(() => {
+    if (!averaging) return;
+    const point = averagedPoint || pos;
+    setAveraging(null);
+    if (averaging.target === 'start') { setTrkActive(true); setTrkStart(point); setTrkPivots([]); setTrkPath(point ? [point] : []); }
+    else if (averaging.target === 'pivot') { if (point && trkPivots.length < 3) setTrkPivots([...trkPivots, point]); }
+    else { setTrkEnd(point); setShowEndConfirm(true); }
+  }, [averaging, averagedPoint, pos, trkPivots]);
+
+  // The clock runs once per capture; keying it on the start time keeps each new fix from restarting it.
+  const averagingStartedAt = averaging?.startedAt;
+  useEffect(() => {
+    if (averagingStartedAt === undefined) return;
+    const tick = setInterval(() => setAveragingNow(Date.now()), 200);
+    return () => clearInterval(tick);
+  }, [averagingStartedAt]);
+
+  useEffect(() => {
+    if (averaging && isAveragingComplete(averagedPoint, averagingElapsed, averagingSettings)) completeAveraging();
+  }, [averaging, averagedPoint, averagingElapsed, averagingSettings, completeAveraging]);
+
+  const measureWidthAtZone = (zone: LandingZone) => {
+    setViewingRecord(null);
+    setWidthRef({ point: zone.point, bearing: zone.bearing });
+    setWidthStart(null);
+    setWidthEnd(null);
+    setView('width');
+  };
+
+  const toggleDeskMode = () => {
+    // A measurement in progress is dropped rather than finished with points of the other kind.
+    setTrkActive(false); setTrkStart(null); setTrkPivots([]); setTrkPath([]); setTrkEnd(null); setDeskHead(null); setAveraging(null);
+    setMapActive(false); setMapCompleted(false); setMapPoints([]); setIsBunker(false);
+    setViewingRecord(null);
+    if (!deskMode) setMapStyle('Satellite');
+    setDeskMode(!deskMode);
+  };
+
+  /**
+   * A tap in desk mode. On a track the first tap is the start and later taps move the end of the current leg, which
+   * PIVOT fixes and FINISH saves. On a green each tap adds a point, and a tap back on the first point closes it.
+   */
+  const tapDeskPoint = (at: LatLng) => {
+    const point = deskPoint(at);
+    if (view === 'track') {
+      if (viewingRecord) return;
+      if (!trkActive) { setTrkActive(true); setTrkStart(point); setTrkPivots([]); setTrkPath([]); setDeskHead(null); }
+      else setDeskHead(point);
+    } else if (view === 'green' && mapActive && !viewingRecord) {
+      if (closesOutline(mapPoints, point, DESK_CLOSE_DISTANCE)) finalizeMapping();
+      else setMapPoints([...mapPoints, { ...point, type: isBunker ? 'bunker' : 'green' }]);
+    }
+  };
+
+  const pivotAtDeskHead = () => {
+    if (!deskHead || trkPivots.length >= 3) return;
+    setTrkPivots([...trkPivots, deskHead]);
+    setDeskHead(null);
+  };
+
+  const holeCentreline = useMemo(() => holeTrack ? trackPath(holeTrack) : null, [holeTrack]);
+
+  const widthEdge = widthEnd || pos;
+  const liveWidth = widthStart && widthEdge ? calculateDistance(widthStart, widthEdge) : 0;
+  const centreBearing = widthRef ? widthRef.bearing : (holeCentreline && widthStart ? centrelineBearingAt(holeCentreline, widthStart) : null);
+  const liveSkew = widthStart && widthEdge && centreBearing !== null && liveWidth > 1 ? crossingSkew(widthStart, widthEdge, centreBearing) : null;
+  // Uncertainty of the record on screen, or of the measurement in progress with the live position as its last point.
+  const shownUncertainty = useMemo(() => {
+    if (viewingRecord) return recordUncertainty(viewingRecord);
+    if (view === 'track' && trkStart && trkHead) return computeUncertainty({ type: 'Track', points: [trkStart, trkHead], pivots: trkPivots, desk: deskMode }, filterSettings.sharedVariance);
+    if (view === 'green' && mapPoints.length >= 3) return computeUncertainty({ type: 'Green', points: mapPoints, desk: deskMode }, filterSettings.sharedVariance);
+    if (view === 'width' && widthStart && widthEdge) return computeUncertainty({ type: 'Width', points: [widthStart, widthEdge] }, filterSettings.sharedVariance);
+    return {};
+  }, [viewingRecord, view, trkStart, trkHead, trkPivots, mapPoints, widthStart, widthEdge, deskMode, filterSettings]);
+  const shownLegUncertainty = shownLeg !== null ? shownUncertainty.legs?.[viewingRecord ? viewedLegs.length - 1 : trkPivots.length] : undefined;
+
+  const viewedWidth = viewingRecord?.type === 'Width' ? viewingRecord.measured.distance ?? null : null;
+  const viewedArea = viewingRecord ? viewingRecord.measured.area ?? null : areaMetrics ? areaMetrics.area : null;
+  const shownSkew = viewingRecord?.type === 'Width' ? (viewingRecord.skew ?? null) : liveSkew;
+
+  const markWidthEdge = () => {
+    if (viewingRecord || widthEnd) { setViewingRecord(null); setWidthStart(null); setWidthEnd(null); return; }
+    if (!pos) return;
+    if (!widthStart) { setWidthStart(pos); return; }
+    const width = calculateDistance(widthStart, pos);
+    const skew = centreBearing !== null ? crossingSkew(widthStart, pos, centreBearing) : undefined;
+    setWidthEnd(pos);
+    saveRecord({ type: 'Width', points: [widthStart, pos], skew });
+  };
   
   // SENSOR DIAGNOSTICS LOGIC
-  const altPrecision = pos?.altAccuracy ?? null;
-  // iPhone Barometer fused lock is typically < 4 meters. GNSS only is often > 15 meters.
-  const isBarometerActive = altPrecision !== null && altPrecision > 0 && altPrecision <= 4.1;
-  const isGNSS3D = altPrecision !== null && altPrecision > 4.1;
-  const sensorSource = isBarometerActive ? 'BAROMETRIC' : (isGNSS3D ? 'GNSS 3D' : 'ESTIMATED');
+  const isPressureAltitude = pos?.altSource === 'barometer' || pos?.altSource === 'manual';
+  const isGNSS3D = pos?.altSource === 'gnss';
+  const sensorSource = pos?.altSource === 'barometer' ? 'BAROMETRIC' : pos?.altSource === 'manual' ? 'MANUAL hPa' : (isGNSS3D ? 'GNSS 3D' : 'ESTIMATED');
 
   return (
     <div className="flex flex-col h-full w-full bg-[#020617] text-white overflow-hidden touch-none absolute inset-0 select-none">
       <div className="h-[env(safe-area-inset-top)] bg-[#0f172a] shrink-0"></div>
 
       {showEndConfirm && <ConfirmDialogue title="End Track?" message="Stop and save distance tracking?" onConfirm={() => {
-        if (trkStart && pos) saveRecord({ type: 'Track', primaryValue: formatDist(accumulatedDist, units) + (units === 'Yards' ? 'yd' : 'm'), secondaryValue: `Elev: ${(elevDelta >= 0 ? '+' : '') + formatAlt(elevDelta, units) + (units === 'Yards' ? 'ft' : 'm')}`, points: [trkStart, pos], pivots: trkPivots });
-        setTrkActive(false); setTrkStart(null); setTrkPivots([]); setShowEndConfirm(false);
-      }} onCancel={() => setShowEndConfirm(false)} confirmLabel="Save" />}
+        if (trkStart && trkHead) saveRecord({ type: 'Track', points: [trkStart, trkHead], pivots: trkPivots, path: deskMode ? undefined : [...trkPath, trkHead], playingLengths: calculatePlayingLengths(accumulatedDist, elevDelta, zoneSettings.profiles), altitudeSource: recordAltitudeSource([trkStart, trkHead]), desk: deskMode || undefined });
+        setTrkActive(false); setTrkStart(null); setTrkPivots([]); setTrkPath([]); setTrkEnd(null); setDeskHead(null); setShowEndConfirm(false);
+      }} onCancel={() => { setTrkEnd(null); setShowEndConfirm(false); }} confirmLabel="Save" />}
       
+      {courseToDelete && <ConfirmDialogue title="Delete Course?" message={describeCourseDeletion(courseToDelete)} onConfirm={() => { deleteCourse(courseToDelete.id); setCourseToDelete(null); }} onCancel={() => setCourseToDelete(null)} confirmLabel="Delete" />}
       {showMapRestartConfirm && <ConfirmDialogue title="Restart Mapper?" message="Clear points?" onConfirm={() => { setMapPoints([]); setShowMapRestartConfirm(false); }} onCancel={() => setShowMapRestartConfirm(false)} />}
       {showManual && <ManualModal onClose={() => setShowManual(false)} />}
+      {importPreview && <ImportReviewModal preview={importPreview} onImport={applyImport} onClose={() => setImportPreview(null)} />}
+      {applyUpdate && (
+        <div className="fixed top-0 inset-x-0 z-[6000] p-3 pt-[max(0.75rem,env(safe-area-inset-top))] flex justify-center animate-in fade-in duration-200">
+          <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-blue-500/30 rounded-full pl-5 pr-2 py-2 flex items-center gap-3 shadow-2xl">
+            <span className="text-[9px] font-black uppercase tracking-widest text-white">New version available</span>
+            <button onClick={applyUpdate} className="px-4 py-2 bg-blue-600 rounded-full text-[9px] font-black uppercase tracking-widest text-white active:scale-95 transition-all">Reload</button>
+            <button onClick={() => setApplyUpdate(null)} className="p-1.5 text-slate-500"><X size={14} /></button>
+          </div>
+        </div>
+      )}
+      {restorePreview && <RestoreModal preview={restorePreview} historyCount={history.length} onRestore={applyRestore} onClose={() => setRestorePreview(null)} />}
+      {showTileCache && <TileCacheModal courses={courses} history={history} areas={tileAreas} position={pos} onDownloaded={saveTileArea} onDelete={removeTileArea} onClose={() => setShowTileCache(false)} />}
+      {showExport && <ExportModal history={history} courses={courses} units={units} onExport={exportHistory} onBackup={backupDatabase} onClose={() => setShowExport(false)} />}
+      {comparePairs && <ComparisonModal pairs={comparePairs} units={units} courses={courses} onClose={() => setComparePairs(null)} />}
+      {showAltimetry && <AltimetryModal settings={altimetrySettings} reading={pressureReading} gnssAltitude={gnssAltitude.current} barometerAvailable={hasBarometer()} onSave={updateAltimetry} onClose={() => setShowAltimetry(false)} />}
+      {showFilterSettings && <FilterSettingsModal settings={filterSettings} averaging={averagingSettings} onSave={updateFilterSettings} onClose={() => setShowFilterSettings(false)} />}
+      {showZoneSettings && <ShotProfileModal settings={zoneSettings} onSave={updateZoneSettings} onClose={() => setShowZoneSettings(false)} />}
 
       {view === 'landing' ? (
         <div className="flex-1 flex flex-col p-6 animate-in fade-in duration-500 overflow-y-auto no-scrollbar">
@@ -449,6 +930,8 @@ const App: React.FC = () => {
             <p className="text-white text-[9px] font-black tracking-[0.4em] uppercase mt-2">Course rating toolkit v2</p>
           </header>
 
+          <CoursePanel courses={courses} selection={selection} onSelect={updateSelection} onCreateCourse={addCourse} onDeleteCourse={id => setCourseToDelete(courses.find(c => c.id === id) || null)} onAddTee={addTee} onOpenHoles={() => setView('holes')} />
+
           <div className="flex flex-col gap-4">
             <button onClick={() => { setView('track'); setViewingRecord(null); }} className="group relative bg-slate-900 border border-white/5 rounded-[2.5rem] p-8 flex flex-col items-center justify-center text-center overflow-hidden active:scale-95 transition-all shadow-2xl">
               <div className="w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center mb-6 shadow-xl shadow-blue-600/30"><Navigation2 size={28} /></div>
@@ -462,40 +945,70 @@ const App: React.FC = () => {
               <p className="text-white text-[10px] font-medium opacity-60">Area & bunker coverage mapping</p>
             </button>
 
+            <button onClick={() => { setView('width'); setWidthStart(null); setWidthEnd(null); setWidthRef(null); setViewingRecord(null); }} className="group relative bg-slate-900 border border-white/5 rounded-[2.5rem] p-8 flex flex-col items-center justify-center text-center overflow-hidden active:scale-95 transition-all shadow-2xl">
+              <div className="w-16 h-16 bg-violet-600 rounded-full flex items-center justify-center mb-6 shadow-xl shadow-violet-600/30"><MoveHorizontal size={28} /></div>
+              <h2 className="text-xl font-black mb-1 uppercase italic text-violet-500">Fairway Width</h2>
+              <p className="text-white text-[10px] font-medium opacity-60">Edge-to-edge width at landing zones</p>
+            </button>
+
             <button onClick={() => setShowManual(true)} className="bg-slate-900/50 border border-white/5 rounded-3xl p-5 flex items-center justify-center gap-3 active:scale-95 transition-all">
               <BookOpen size={18} className="text-blue-400" />
               <span className="text-[10px] font-black uppercase tracking-widest text-blue-400">View User Manual</span>
             </button>
+
+            <button onClick={() => setShowTileCache(true)} className="bg-slate-900/50 border border-white/5 rounded-3xl p-5 flex items-center justify-center gap-3 active:scale-95 transition-all">
+              <DownloadCloud size={18} className="text-emerald-400" />
+              <span className="text-[10px] font-black uppercase tracking-widest text-emerald-400">Offline Maps</span>
+            </button>
           </div>
 
           <footer className="mt-8 pb-4">
-            {history.length > 0 && (
-              <div className="mb-6">
-                <div className="flex items-center justify-between mb-3 px-2">
-                  <div className="flex items-center gap-2"><HistoryIcon size={14} className="text-slate-600" /><span className="text-[9px] font-black tracking-[0.2em] text-slate-500 uppercase">Session History</span></div>
-                  <button onClick={() => exportToKML(history)} className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600/10 border border-blue-600/20 rounded-full active:scale-95 transition-all"><Download size={12} className="text-blue-400" /><span className="text-[8px] font-black text-blue-400 uppercase tracking-widest">Export</span></button>
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-3 px-2">
+                <div className="flex items-center gap-2"><HistoryIcon size={14} className="text-slate-600" /><span className="text-[9px] font-black tracking-[0.2em] text-slate-500 uppercase">Session History</span></div>
+                <div className="flex gap-2">
+                  <input ref={importInput} type="file" accept=".gpx,.kml,.geojson,.json" className="hidden" onChange={e => { const file = e.target.files?.[0]; if (file) importFile(file); e.target.value = ''; }} />
+                  <button onClick={() => importInput.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-800 border border-white/10 rounded-full active:scale-95 transition-all"><Upload size={12} className="text-slate-400" /><span className="text-[8px] font-black text-slate-400 uppercase tracking-widest">Import</span></button>
+                  {(history.length > 0 || courses.length > 0) && <button onClick={() => setShowExport(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-600/10 border border-blue-600/20 rounded-full active:scale-95 transition-all"><Download size={12} className="text-blue-400" /><span className="text-[8px] font-black text-blue-400 uppercase tracking-widest">Export</span></button>}
+                </div>
+              </div>
+              {importNotice && (
+                <div className="flex items-center justify-between gap-2 bg-blue-600/10 border border-blue-600/20 rounded-2xl px-3 py-2 mb-3 mx-2">
+                  <span className="text-[9px] font-medium text-blue-200/80">{importNotice}</span>
+                  <button onClick={() => setImportNotice(null)} className="text-slate-500"><X size={12} /></button>
                 </div>
+              )}
+              {history.length > 0 && (
                 <div className="flex gap-3 overflow-x-auto pb-4 no-scrollbar">
                   {history.map(item => (
                     <div key={item.id} className="relative shrink-0 group">
-                      <button onClick={() => { setViewingRecord(item); setView(item.type === 'Track' ? 'track' : 'green'); }} className="bg-slate-900/50 border border-white/5 px-5 py-4 rounded-2xl flex flex-col min-w-[170px] active:bg-slate-800 transition-all text-left">
-                        <div className="flex justify-between items-start mb-1"><span className="text-[7px] font-black text-slate-500 uppercase tracking-[0.2em]">{item.type}</span><Eye size={10} className="text-slate-600" /></div>
-                        <span className="text-lg font-black tabular-nums text-white mb-0.5">{item.primaryValue}</span>
-                        {item.secondaryValue && <span className="text-[10px] font-bold text-slate-400 opacity-90">{item.secondaryValue}</span>}
+                      <button onClick={() => { setViewingRecord(item); setView(viewForRecord(item)); }} className="bg-slate-900/50 border border-white/5 px-5 py-4 rounded-2xl flex flex-col min-w-[170px] active:bg-slate-800 transition-all text-left">
+                        <div className="flex justify-between items-start mb-1"><span className="text-[7px] font-black text-slate-500 uppercase tracking-[0.2em]">{item.type}{item.reference && ' · Ref'}{item.desk && ' · Desk'}{item.revision && ` · Rev ${item.revision}`}{describeRecordLocation(item, courses) && ` · ${describeRecordLocation(item, courses)}`}</span><Eye size={10} className="text-slate-600" /></div>
+                        <span className="text-lg font-black tabular-nums text-white mb-0.5">{primaryValue(item, units)}<span className="text-[10px] ml-1 font-bold text-slate-500">{primaryUncertainty(item, units)}</span></span>
+                        <span className="text-[10px] font-bold text-slate-400 opacity-90">{secondaryValue(item, units)}</span>
                       </button>
                       <button onClick={(e) => deleteHistory(item.id, e)} className="absolute -top-2 -right-2 w-7 h-7 bg-red-500 rounded-full flex items-center justify-center border-2 border-[#020617] text-white shadow-lg active:scale-90 transition-all z-10"><Trash2 size={12} /></button>
                     </div>
                   ))}
                 </div>
-              </div>
-            )}
+              )}
+            </div>
           </footer>
         </div>
+      ) : view === 'holes' && activeCourse ? (
+        <HoleSummary course={activeCourse} history={history} selection={selection} units={units} onBack={() => setView('landing')} onSelectHole={n => updateSelection({ ...selection, holeNumber: n })} onSetPar={setHolePar} onViewRecord={r => { setViewingRecord(r); setView(viewForRecord(r)); }} onOpenWorksheet={n => { updateSelection({ ...selection, holeNumber: n }); setView('worksheet'); }} onOpenReport={() => setView('report')} onCompare={n => setComparePairs(holePairs(history, activeCourse.id, n))} />
+      ) : view === 'worksheet' && activeCourse && selection.teeId ? (
+        <ObstacleWorksheetView course={activeCourse} holeNumber={selection.holeNumber} teeId={selection.teeId} worksheets={worksheets} history={history} onSave={saveWorksheet} onChangeHole={n => updateSelection({ ...selection, holeNumber: n })} onChangeTee={id => updateSelection({ ...selection, teeId: id })} onBack={() => setView('holes')} />
+      ) : view === 'report' && activeCourse && selection.teeId ? (
+        <RatingReportView course={activeCourse} teeId={selection.teeId} history={history} worksheets={worksheets} profiles={zoneSettings.profiles} units={units} onChangeTee={id => updateSelection({ ...selection, teeId: id })} onBack={() => setView('holes')} />
       ) : (
         <div className="flex-1 flex flex-col relative animate-in slide-in-from-right duration-300">
           <div className="absolute top-0 left-0 right-0 z-[1000] p-4 pointer-events-none flex justify-between items-start">
-            <button onClick={() => { setView('landing'); setTrkActive(false); setMapActive(false); setMapCompleted(false); setViewingRecord(null); setTrkPivots([]); }} className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 px-5 py-3 rounded-full flex items-center gap-3 shadow-2xl active:scale-95 transition-all"><ChevronLeft size={20} className="text-emerald-400" /><span className="text-[11px] font-black uppercase tracking-[0.2em]">Home</span></button>
+            <button onClick={() => { setView('landing'); setTrkActive(false); setMapActive(false); setMapCompleted(false); setViewingRecord(null); setTrkPivots([]); setTrkPath([]); setTrkEnd(null); setDeskHead(null); setAveraging(null); setWidthStart(null); setWidthEnd(null); setWidthRef(null); }} className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 px-5 py-3 rounded-full flex items-center gap-3 shadow-2xl active:scale-95 transition-all"><ChevronLeft size={20} className="text-emerald-400" /><span className="text-[11px] font-black uppercase tracking-[0.2em]">Home</span></button>
             <div className="flex gap-2">
+              <button onClick={() => setShowFilterSettings(true)} className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 p-3.5 rounded-full active:scale-95 transition-all"><SlidersHorizontal size={22} className={filterSettings.enabled ? 'text-emerald-400' : 'text-slate-400'} /></button>
+              {(view === 'track' || view === 'green') && <button onClick={toggleDeskMode} className={`pointer-events-auto backdrop-blur-xl border border-white/10 p-3.5 rounded-full active:scale-95 transition-all ${deskMode ? 'bg-blue-600' : 'bg-[#0f172a]/95'}`}><MousePointerClick size={22} className={deskMode ? 'text-white' : 'text-slate-400'} /></button>}
+              {view === 'track' && <button onClick={() => setShowZoneSettings(true)} className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 p-3.5 rounded-full active:scale-95 transition-all"><Crosshair size={22} className="text-blue-400" /></button>}
               <button onClick={() => setUnits(u => u === 'Yards' ? 'Metres' : 'Yards')} className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 p-3.5 rounded-full active:scale-95 transition-all"><Ruler size={22} className="text-emerald-400" /></button>
               <button onClick={() => setMapStyle(s => s === 'Street' ? 'Satellite' : 'Street')} className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 p-3.5 rounded-full active:scale-95 transition-all"><Layers size={22} className={mapStyle === 'Satellite' ? 'text-blue-400' : 'text-slate-400'} /></button>
             </div>
@@ -503,8 +1016,10 @@ const App: React.FC = () => {
 
           <main className="flex-1">
             <MapContainer center={[0, 0]} zoom={2} className="h-full w-full custom-map-container" zoomControl={false} attributionControl={false}>
-              <TileLayer url={mapStyle === 'Street' ? "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" : "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"} maxZoom={22} maxNativeZoom={19} className="opaque-tile-layer" />
-              <MapController pos={pos} active={trkActive || mapActive} trkStart={trkStart} trkPivots={trkPivots} mapPoints={mapPoints} completed={mapCompleted} viewingRecord={viewingRecord} mode={view} />
+              <CachedTileLayer style={mapStyle} />
+              {approachDraft && <MapTapHandler onTap={tapApproachPoint} />}
+              {deskMode && !approachDraft && !editOriginal && <MapTapHandler onTap={tapDeskPoint} />}
+              <MapController pos={pos} active={!deskMode && (trkActive || mapActive || (view === 'width' && !!widthStart && !widthEnd))} trkStart={trkStart} trkPivots={trkPivots} mapPoints={mapPoints} completed={mapCompleted} viewingRecord={viewingRecord} mode={view} />
               {pos && (view !== 'green' || !mapCompleted) && !viewingRecord && (
                 <><Circle center={[pos.lat, pos.lng]} radius={pos.accuracy} pathOptions={{ color: getAccuracyColor(pos.accuracy), fillOpacity: 0.1, weight: 1, opacity: 0.2 }} /><CircleMarker center={[pos.lat, pos.lng]} radius={7} pathOptions={{ color: '#fff', fillColor: '#10b981', fillOpacity: 1, weight: 2.5 }} /></>
               )}
@@ -513,8 +1028,24 @@ const App: React.FC = () => {
                   {viewingRecord?.type === 'Track' && viewingRecord.points.length >= 2 && (
                     <><CircleMarker center={[viewingRecord.points[0].lat, viewingRecord.points[0].lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#3b82f6', fillOpacity: 1 }} />{viewingRecord.pivots?.map((pv, i) => <CircleMarker key={i} center={[pv.lat, pv.lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#f59e0b', fillOpacity: 1 }} />)}<Polyline positions={[[viewingRecord.points[0].lat, viewingRecord.points[0].lng] as [number, number], ...(viewingRecord.pivots?.map(p => [p.lat, p.lng] as [number, number]) || []), [viewingRecord.points[viewingRecord.points.length-1].lat, viewingRecord.points[viewingRecord.points.length-1].lng] as [number, number]]} color="#3b82f6" weight={5} /></>
                   )}
-                  {trkStart && pos && !viewingRecord && (
-                    <><CircleMarker center={[trkStart.lat, trkStart.lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#3b82f6', fillOpacity: 1 }} />{trkPivots.map((pv, i) => <CircleMarker key={i} center={[pv.lat, pv.lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#f59e0b', fillOpacity: 1 }} />)}<Polyline positions={[[trkStart.lat, trkStart.lng] as [number, number], ...trkPivots.map(p => [p.lat, p.lng] as [number, number]), [pos.lat, pos.lng] as [number, number]]} color="#3b82f6" weight={5} /></>
+                  {landingZones.length > 0 && <LandingZoneLayer zones={landingZones} bandWidth={zoneSettings.bandWidth} selected={selectedZone} onSelect={setSelectedZone} />}
+                  {viewingRecord?.type === 'Track' && viewingRecord.path && viewingRecord.path.length > 1 && <Polyline positions={viewingRecord.path.map(p => [p.lat, p.lng] as [number, number])} pathOptions={{ color: '#e2e8f0', weight: 2, opacity: 0.45, dashArray: '2 6' }} />}
+                  {trkActive && !viewingRecord && trkPath.length > 1 && <Polyline positions={trkPath.map(p => [p.lat, p.lng] as [number, number])} pathOptions={{ color: '#e2e8f0', weight: 2, opacity: 0.45, dashArray: '2 6' }} />}
+                  {trkStart && (trkHead || deskMode) && !viewingRecord && (
+                    <><CircleMarker center={[trkStart.lat, trkStart.lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#3b82f6', fillOpacity: 1 }} />{trkPivots.map((pv, i) => <CircleMarker key={i} center={[pv.lat, pv.lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#f59e0b', fillOpacity: 1 }} />)}{trkHead && <Polyline positions={[[trkStart.lat, trkStart.lng] as [number, number], ...trkPivots.map(p => [p.lat, p.lng] as [number, number]), [trkHead.lat, trkHead.lng] as [number, number]]} color="#3b82f6" weight={5} />}{deskMode && deskHead && <CircleMarker center={[deskHead.lat, deskHead.lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#3b82f6', fillOpacity: 1 }} />}</>
+                  )}
+                  {averaging && <AveragingCircle average={averagedPoint} settings={averagingSettings} />}
+                </>
+              )}
+              {view === 'width' && (
+                <>
+                  {holeCentreline && !viewingRecord && <Polyline positions={holeCentreline.map(p => [p.lat, p.lng] as [number, number])} pathOptions={{ color: '#3b82f6', weight: 2, opacity: 0.5, dashArray: '6 8' }} />}
+                  {widthRef && !viewingRecord && <CircleMarker center={[widthRef.point.lat, widthRef.point.lng]} radius={5} pathOptions={{ color: '#fff', fillColor: '#3b82f6', fillOpacity: 1, weight: 1.5 }} />}
+                  {viewingRecord?.type === 'Width' && viewingRecord.points.length >= 2 && (
+                    <>{viewingRecord.points.map((p, i) => <CircleMarker key={i} center={[p.lat, p.lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#8b5cf6', fillOpacity: 1 }} />)}<Polyline positions={viewingRecord.points.map(p => [p.lat, p.lng] as [number, number])} color="#8b5cf6" weight={5} /></>
+                  )}
+                  {widthStart && widthEdge && !viewingRecord && (
+                    <><CircleMarker center={[widthStart.lat, widthStart.lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#8b5cf6', fillOpacity: 1 }} />{widthEnd && <CircleMarker center={[widthEnd.lat, widthEnd.lng]} radius={6} pathOptions={{ color: '#fff', fillColor: '#8b5cf6', fillOpacity: 1 }} />}<Polyline positions={[[widthStart.lat, widthStart.lng], [widthEdge.lat, widthEdge.lng]]} color="#8b5cf6" weight={5} /></>
                   )}
                 </>
               )}
@@ -527,34 +1058,88 @@ const App: React.FC = () => {
                         const prev = arr[i - 1];
                         return <Polyline key={i} positions={[[prev.lat, prev.lng], [p.lat, p.lng]]} color={p.type === 'bunker' ? '#f59e0b' : '#10b981'} weight={p.type === 'bunker' ? 7 : 5} />;
                       })}
+                      {shownGreen && <GreenDimensionsLayer dimensions={shownGreen.dimensions || null} arrowDraft={approachDraft} />}
+                      {deskMode && mapActive && !viewingRecord && mapPoints.map((p, i) => <CircleMarker key={i} center={[p.lat, p.lng]} radius={i === 0 ? 6 : 3} pathOptions={{ color: '#fff', fillColor: p.type === 'bunker' ? '#f59e0b' : '#10b981', fillOpacity: 1, weight: 1.5 }} />)}
                       {(viewingRecord?.type === 'Green' || mapCompleted) && <Polygon positions={(viewingRecord?.type === 'Green' ? viewingRecord.points : mapPoints).map(p => [p.lat, p.lng])} fillColor="#10b981" fillOpacity={0.2} weight={0} />}
                     </>
                   )}
                 </>
               )}
+              {editOriginal && viewingRecord && (
+                <RecordEditLayer
+                  vertices={editVertices(viewingRecord)}
+                  closed={viewingRecord.type === 'Green'}
+                  selection={editSelection}
+                  vertexColour={i => viewingRecord.type === 'Track'
+                    ? (i === 0 || i === editVertices(viewingRecord).length - 1 ? '#3b82f6' : '#f59e0b')
+                    : (viewingRecord.points[i].type === 'bunker' ? '#f59e0b' : '#10b981')}
+                  onSelect={setEditSelection}
+                  onMove={(i, at) => applyEdit(moveVertex(editVertices(viewingRecord), i, at))}
+                />
+              )}
             </MapContainer>
           </main>
 
           <div className="absolute inset-x-0 bottom-0 z-[1000] p-4 pointer-events-none flex flex-col gap-4 items-center">
             <div className="flex flex-col gap-4 w-full max-w-sm">
+              {viewingRecord && <div className="self-center pointer-events-auto bg-[#0f172a]/95 backdrop-blur-xl border border-white/10 rounded-full px-4 py-1.5 flex items-center gap-2"><SlidersHorizontal size={10} className="text-slate-500" /><span className="text-[8px] font-black uppercase tracking-[0.2em] text-slate-400">{viewingRecord.source || (viewingRecord.desk ? 'Desk · from imagery' : describeFilter(viewingRecord.filter))}</span>{viewingPairs.length > 0 && <button onClick={() => setComparePairs(viewingPairs)} className="ml-1 flex items-center gap-1 text-[8px] font-black uppercase tracking-[0.2em] text-fuchsia-400"><GitCompare size={10} /> Compare</button>}{!editOriginal && isEditable(viewingRecord) && <button onClick={startEdit} className="ml-1 flex items-center gap-1 text-[8px] font-black uppercase tracking-[0.2em] text-blue-400"><PenLine size={10} /> Edit</button>}</div>}
+              {editOriginal && viewingRecord && (() => {
+                const vertices = editVertices(viewingRecord);
+                const vertex = editSelection?.kind === 'vertex' ? editSelection.index : null;
+                const segment = editSelection?.kind === 'segment' ? editSelection.index : null;
+                return (
+                  <div className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-2xl border border-white/10 rounded-3xl p-3 w-full shadow-2xl flex flex-col gap-2">
+                    <span className="text-[8px] font-black uppercase tracking-[0.2em] text-slate-500 text-center">{vertex !== null ? `Point ${vertex + 1} selected` : segment !== null ? `Line ${segment + 1} selected` : 'Drag a point, or tap a point or line'}</span>
+                    <div className="flex gap-2">
+                      {vertex !== null && <button disabled={!canDeleteVertex(viewingRecord, vertices, vertex)} onClick={() => applyEdit(deleteVertex(vertices, vertex), null)} className="flex-1 h-10 rounded-2xl bg-red-600/10 border border-red-600/20 disabled:opacity-30 text-red-400 font-black text-[9px] tracking-widest uppercase flex items-center justify-center gap-1.5 active:scale-95 transition-all"><Trash2 size={12} /> Delete point</button>}
+                      {segment !== null && <button onClick={() => applyEdit(insertVertex(vertices, segment), { kind: 'vertex', index: segment + 1 })} className="flex-1 h-10 rounded-2xl bg-slate-800 text-slate-300 font-black text-[9px] tracking-widest uppercase flex items-center justify-center gap-1.5 active:scale-95 transition-all"><Plus size={12} /> Add point</button>}
+                      {segment !== null && canFlagSegment(viewingRecord, vertices, segment) && <button onClick={() => applyEdit(toggleSegment(vertices, segment))} className="flex-1 h-10 rounded-2xl bg-amber-600/10 border border-amber-600/20 text-amber-400 font-black text-[9px] tracking-widest uppercase flex items-center justify-center gap-1.5 active:scale-95 transition-all"><AlertCircle size={12} /> {vertices[segment + 1].type === 'bunker' ? 'Mark green' : 'Mark bunker'}</button>}
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={cancelEdit} className="flex-1 h-11 rounded-2xl bg-slate-800 text-slate-400 font-black text-[9px] tracking-widest uppercase active:scale-95 transition-all">Cancel</button>
+                      <button onClick={saveEdit} disabled={viewingRecord === editOriginal} className="flex-1 h-11 rounded-2xl bg-blue-600 disabled:opacity-40 text-white font-black text-[9px] tracking-widest uppercase flex items-center justify-center gap-1.5 active:scale-95 transition-all"><CheckCircle2 size={12} /> Save revision</button>
+                    </div>
+                  </div>
+                );
+              })()}
               {view === 'track' ? (
                 <>
+                  {selectedZone && (
+                    <div className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-2xl border border-white/10 rounded-3xl p-2 pl-4 w-full shadow-2xl flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <span className="text-[8px] font-black uppercase tracking-[0.2em] text-slate-500 block">{selectedZone.profile.player} {selectedZone.profile.gender} · Shot {selectedZone.shot}</span>
+                        <span className="text-sm font-black tabular-nums text-white">{formatDist(selectedZone.distance, units)}{units === 'Yards' ? 'yd' : 'm'} from tee</span>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <button onClick={() => measureWidthAtZone(selectedZone)} className="h-11 px-4 rounded-2xl bg-violet-600 font-black text-[9px] tracking-widest uppercase flex items-center gap-2 active:scale-95 transition-all"><MoveHorizontal size={14} /> Measure width</button>
+                        <button onClick={() => setSelectedZone(null)} className="w-11 h-11 rounded-2xl bg-slate-800 flex items-center justify-center text-slate-400 active:scale-95 transition-all"><X size={16} /></button>
+                      </div>
+                    </div>
+                  )}
+                  {averaging && <div className="self-center"><AveragingOverlay label={averaging.target === 'pivot' ? `Pivot ${trkPivots.length + 1}` : averaging.target} average={averagedPoint} elapsed={averagingElapsed} settings={averagingSettings} units={units} /></div>}
                   <div className="pointer-events-auto flex gap-2 w-full">
-                    <button onClick={() => { setViewingRecord(null); if (!trkActive) { setTrkActive(true); setTrkStart(pos); setTrkPivots([]); } else setShowEndConfirm(true); }} className={`flex-1 h-14 rounded-3xl font-black text-[9px] tracking-widest uppercase border border-white/10 shadow-2xl transition-all flex items-center justify-center gap-2 ${trkActive ? 'bg-red-600 text-white' : 'bg-emerald-600 text-white active:scale-95'}`}><Navigation2 size={18} /> {viewingRecord ? 'LIVE' : (trkActive ? 'FINISH' : 'START')}</button>
+                    {deskMode ? (
+                      <button onClick={() => { if (viewingRecord) setViewingRecord(null); else if (deskHead) { setTrkEnd(deskHead); setShowEndConfirm(true); } }} disabled={!viewingRecord && !deskHead} className={`flex-1 h-14 rounded-3xl font-black text-[9px] tracking-widest uppercase border border-white/10 shadow-2xl transition-all flex items-center justify-center gap-2 ${trkActive ? 'bg-red-600 text-white' : 'bg-emerald-600 text-white active:scale-95'} disabled:bg-slate-800 disabled:text-slate-400`}><MousePointerClick size={18} /> {viewingRecord ? 'NEW' : (!trkActive ? 'TAP START' : (deskHead ? 'FINISH' : 'TAP END'))}</button>
+                    ) : (
+                      <button onPointerDown={() => { setViewingRecord(null); beginAveraging(trkActive ? 'end' : 'start'); }} onPointerUp={completeAveraging} onPointerLeave={completeAveraging} className={`flex-1 h-14 rounded-3xl font-black text-[9px] tracking-widest uppercase border border-white/10 shadow-2xl transition-all flex items-center justify-center gap-2 ${trkActive ? 'bg-red-600 text-white' : 'bg-emerald-600 text-white active:scale-95'}`}><Navigation2 size={18} /> {viewingRecord ? 'LIVE' : (trkActive ? 'FINISH' : 'START')}</button>
+                    )}
                     {trkActive && (
                       <div className="flex-[1.5] flex gap-2">
                         {trkPivots.length > 0 && <button onClick={() => setTrkPivots(trkPivots.slice(0, -1))} className="flex-1 h-14 rounded-3xl bg-slate-800 border border-white/10 text-amber-400 font-black text-[9px] tracking-widest uppercase flex items-center justify-center gap-2 active:scale-95 transition-all shadow-xl"><Undo2 size={16} /> UNDO</button>}
-                        <button onClick={() => trkPivots.length < 3 && pos && setTrkPivots([...trkPivots, pos])} disabled={trkPivots.length >= 3} className={`flex-[1.2] h-14 rounded-3xl font-black text-[9px] tracking-widest uppercase border border-white/10 shadow-xl transition-all flex items-center justify-center gap-2 ${trkPivots.length >= 3 ? 'bg-slate-800 text-slate-500' : 'bg-blue-600 text-white active:scale-95'}`}><Anchor size={16} /> {trkPivots.length >= 3 ? 'MAX' : `PIVOT ${trkPivots.length + 1}/3`}</button>
+                        <button onClick={deskMode ? pivotAtDeskHead : undefined} onPointerDown={() => !deskMode && trkPivots.length < 3 && beginAveraging('pivot')} onPointerUp={completeAveraging} onPointerLeave={completeAveraging} disabled={trkPivots.length >= 3 || (deskMode && !deskHead)} className={`flex-[1.2] h-14 rounded-3xl font-black text-[9px] tracking-widest uppercase border border-white/10 shadow-xl transition-all flex items-center justify-center gap-2 ${trkPivots.length >= 3 || (deskMode && !deskHead) ? 'bg-slate-800 text-slate-500' : 'bg-blue-600 text-white active:scale-95'}`}><Anchor size={16} /> {trkPivots.length >= 3 ? 'MAX' : `PIVOT ${trkPivots.length + 1}/3`}</button>
                       </div>
                     )}
                   </div>
                   <div className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-2xl border border-white/10 rounded-[2.5rem] p-3.5 w-full shadow-2xl">
                     <div className="flex items-center justify-around gap-2">
                       <div className="flex-1 min-w-0 text-center flex flex-col items-center">
-                        <FitText maxFontSize={11} className="font-black text-white uppercase tracking-tighter mb-1">{viewingRecord ? 'LOGGED' : `HORIZ ±${(pos?.accuracy ? pos.accuracy * (units === 'Yards' ? 1.09 : 1) : 0).toFixed(1)}${units === 'Yards' ? 'yd' : 'm'}`}</FitText>
+                        <FitText maxFontSize={11} className="font-black text-white uppercase tracking-tighter mb-1">{viewingRecord ? 'LOGGED' : deskMode ? 'DESK' : `HORIZ ±${(pos?.accuracy ? pos.accuracy * (units === 'Yards' ? 1.09 : 1) : 0).toFixed(1)}${units === 'Yards' ? 'yd' : 'm'}`}</FitText>
                         <span className="text-[10px] font-black text-white uppercase tracking-widest opacity-40 mb-1">Total Distance</span>
-                        <FitText maxFontSize={32} className="font-black text-emerald-400 tabular-nums leading-none tracking-tighter text-glow-emerald">{viewingRecord ? viewingRecord.primaryValue.replace(/[a-z²]/gi, '') : formatDist(accumulatedDist, units)}<span className="text-[12px] ml-1 font-bold opacity-40 uppercase">{units === 'Yards' ? 'yd' : 'm'}</span></FitText>
-                        {(trkPivots.length > 0 || viewingRecord?.pivots?.length) && <span className="text-[10px] font-black text-amber-400 uppercase tracking-widest mt-1">LEG: {formatDist(currentLegDist, units)}{units === 'Yards' ? 'yd' : 'm'}</span>}
+                        <FitText maxFontSize={32} className="font-black text-emerald-400 tabular-nums leading-none tracking-tighter text-glow-emerald">{viewingRecord ? (viewingRecord.measured.distance !== undefined ? formatDist(viewingRecord.measured.distance, units) : '--') : formatDist(accumulatedDist, units)}<span className="text-[12px] ml-1 font-bold opacity-40 uppercase">{units === 'Yards' ? 'yd' : 'm'}</span></FitText>
+                        {shownUncertainty.distance !== undefined && <span className="text-[10px] font-black text-emerald-400/70 tabular-nums mt-1">{formatUncertainty(shownUncertainty.distance, 'distance', units)}</span>}
+                        {shownLeg !== null && <span className="text-[10px] font-black text-amber-400 uppercase tracking-widest mt-1">LEG: {formatDist(shownLeg, units)}{units === 'Yards' ? 'yd' : 'm'} {formatUncertainty(shownLegUncertainty, 'distance', units)}</span>}
+                        {shownStart?.precision !== undefined && <span className="text-[10px] font-black text-blue-400 uppercase tracking-widest mt-1">START ±{(shownStart.precision * (units === 'Yards' ? 1.09 : 1)).toFixed(1)}{units === 'Yards' ? 'yd' : 'm'} · {shownStart.samples} FIXES</span>}
+                        {walkedDist > 0 && <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest mt-1">WALKED: {formatDist(walkedDist, units)}{units === 'Yards' ? 'yd' : 'm'}</span>}
                       </div>
                       <div className="h-20 w-px bg-white/10 shrink-0 mx-2"></div>
                       <div className="flex-1 min-w-0 text-center flex flex-col items-center">
@@ -562,39 +1147,85 @@ const App: React.FC = () => {
                           {viewingRecord ? 'ALTITUDE' : `VERT ±${pos?.altAccuracy ? (pos.altAccuracy * (units === 'Yards' ? 3.28 : 1)).toFixed(1) : '--'}${units === 'Yards' ? 'ft' : 'm'}`}
                         </FitText>
                         <span className="text-[10px] font-black text-white uppercase tracking-widest opacity-40 mb-1">Elev change</span>
-                        <FitText maxFontSize={32} className="font-black text-amber-400 tabular-nums leading-none tracking-tighter">{viewingRecord ? viewingRecord.secondaryValue?.replace('Elev: ', '').replace(/[a-z²]/gi, '') : ((elevDelta >= 0 ? '+' : '') + formatAlt(elevDelta, units))}<span className="text-[12px] ml-1 font-bold opacity-40 uppercase">{units === 'Yards' ? 'ft' : 'm'}</span></FitText>
-                        {!viewingRecord && (
+                        <FitText maxFontSize={32} className="font-black text-amber-400 tabular-nums leading-none tracking-tighter">{viewingRecord ? (viewingRecord.measured.elevation !== undefined ? formatSignedAlt(viewingRecord.measured.elevation, units) : '--') : formatSignedAlt(elevDelta, units)}<span className="text-[12px] ml-1 font-bold opacity-40 uppercase">{units === 'Yards' ? 'ft' : 'm'}</span></FitText>
+                        {shownUncertainty.elevation !== undefined && <span className="text-[10px] font-black text-amber-400/70 tabular-nums mt-1">{formatUncertainty(shownUncertainty.elevation, 'elevation', units)}</span>}
+                        {viewingRecord ? (
                           <div className="flex items-center gap-1 mt-1">
-                            <Cpu size={10} className={isBarometerActive ? 'text-blue-400' : 'text-slate-500'} />
-                            <span className={`text-[8px] font-black uppercase tracking-widest ${isBarometerActive ? 'text-blue-400' : 'text-slate-500'}`}>
+                            <Cpu size={10} className="text-slate-500" />
+                            <span className="text-[8px] font-black uppercase tracking-widest text-slate-500">{describeAltitudeSource(viewingRecord.altitudeSource)}</span>
+                          </div>
+                        ) : (
+                          <button onClick={() => setShowAltimetry(true)} className="flex items-center gap-1 mt-1 active:scale-95 transition-all">
+                            <Cpu size={10} className={isPressureAltitude ? 'text-blue-400' : 'text-slate-500'} />
+                            <span className={`text-[8px] font-black uppercase tracking-widest ${isPressureAltitude ? 'text-blue-400' : 'text-slate-500'}`}>
                               {sensorSource}
                             </span>
-                          </div>
+                          </button>
                         )}
                       </div>
                     </div>
+                    {(viewingRecord ? viewingRecord.playingLengths : playingLengths) && <PlayingLengthPanel lengths={(viewingRecord ? viewingRecord.playingLengths : playingLengths)!} units={units} />}
                     {!viewingRecord && (
                       <div className="mt-3 flex items-center justify-center gap-2 border-t border-white/5 pt-2">
-                        <Activity size={10} className={isBarometerActive ? 'text-blue-400' : (isGNSS3D ? 'text-emerald-400' : 'text-amber-500')} />
-                        <span className={`text-[8px] font-black uppercase tracking-[0.2em] ${isBarometerActive ? 'text-blue-400' : (isGNSS3D ? 'text-emerald-400' : 'text-amber-500')}`}>
-                          {isBarometerActive ? 'Barometer Feed Active' : (isGNSS3D ? 'GNSS 3D Lock Active' : 'Searching Vertical Fix')}
+                        <Activity size={10} className={isPressureAltitude ? 'text-blue-400' : (isGNSS3D ? 'text-emerald-400' : 'text-amber-500')} />
+                        <span className={`text-[8px] font-black uppercase tracking-[0.2em] ${isPressureAltitude ? 'text-blue-400' : (isGNSS3D ? 'text-emerald-400' : 'text-amber-500')}`}>
+                          {pos?.altSource === 'barometer' ? 'Barometer Feed Active' : pos?.altSource === 'manual' ? 'Manual Pressure Active' : (isGNSS3D ? 'GNSS 3D Lock Active' : 'Searching Vertical Fix')}
                         </span>
                       </div>
                     )}
                   </div>
                 </>
+              ) : view === 'width' ? (
+                <>
+                  <div className="pointer-events-auto flex gap-2 w-full">
+                    <button onClick={markWidthEdge} className={`flex-1 h-14 rounded-3xl font-black text-[9px] tracking-widest uppercase border border-white/10 shadow-2xl transition-all flex items-center justify-center gap-2 ${widthStart && !widthEnd && !viewingRecord ? 'bg-violet-600 text-white' : 'bg-emerald-600 text-white active:scale-95'}`}><MoveHorizontal size={18} /> {viewingRecord || widthEnd ? 'NEW WIDTH' : (widthStart ? 'MARK EDGE 2' : 'MARK EDGE 1')}</button>
+                    {widthStart && !widthEnd && !viewingRecord && <button onClick={() => setWidthStart(null)} className="w-16 h-14 rounded-3xl bg-slate-800 border border-white/10 text-amber-400 flex items-center justify-center active:scale-95 transition-all shadow-xl"><Undo2 size={16} /></button>}
+                  </div>
+                  <div className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-2xl border border-white/10 rounded-[2.5rem] p-3.5 w-full shadow-2xl">
+                    <div className="flex items-center justify-around gap-2">
+                      <div className="flex-1 min-w-0 text-center flex flex-col items-center">
+                        <span className="text-[10px] font-black text-white uppercase tracking-widest opacity-40 mb-1">Width</span>
+                        <FitText maxFontSize={32} className="font-black text-violet-400 tabular-nums leading-none tracking-tighter">{viewedWidth !== null ? formatDist(viewedWidth, units) : (widthStart ? formatDist(liveWidth, units) : '--')}<span className="text-[12px] ml-1 font-bold opacity-40 uppercase">{units === 'Yards' ? 'yd' : 'm'}</span></FitText>
+                        {shownUncertainty.distance !== undefined && <span className="text-[10px] font-black text-violet-400/70 tabular-nums mt-1">{formatUncertainty(shownUncertainty.distance, 'distance', units)}</span>}
+                      </div>
+                      <div className="h-16 w-px bg-white/10 shrink-0 mx-2"></div>
+                      <div className="flex-1 min-w-0 text-center flex flex-col items-center">
+                        <span className="text-[10px] font-black text-white uppercase tracking-widest opacity-40 mb-1">Off square</span>
+                        <FitText maxFontSize={32} className={`font-black tabular-nums leading-none tracking-tighter ${shownSkew !== null ? getSkewColor(shownSkew) : 'text-slate-500'}`}>{shownSkew !== null ? shownSkew.toFixed(0) : '--'}<span className="text-[12px] ml-1 font-bold opacity-40 uppercase">°</span></FitText>
+                      </div>
+                    </div>
+                    {!viewingRecord && (
+                      <div className="mt-3 flex items-center justify-center gap-2 border-t border-white/5 pt-2">
+                        <span className="text-[8px] font-black uppercase tracking-[0.2em] text-slate-500">{widthRef ? 'Centreline: Landing Zone' : (holeCentreline ? 'Centreline: Hole Track' : 'No centreline for this hole')}</span>
+                      </div>
+                    )}
+                  </div>
+                </>
               ) : (
                 <>
                   <div className="pointer-events-auto flex gap-2 w-full">
-                    <button onClick={() => { setViewingRecord(null); if (mapCompleted) { setMapPoints([]); setMapCompleted(false); setMapActive(false); } else if (!mapActive) { setMapPoints(pos ? [pos] : []); setMapActive(true); } else finalizeMapping(); }} className={`flex-1 h-20 rounded-[2.2rem] font-black text-[10px] tracking-widest uppercase border border-white/10 transition-all flex items-center justify-center gap-2 ${mapActive ? 'bg-blue-600 text-white' : 'bg-emerald-600 text-white active:scale-95'} ${mapCompleted ? 'bg-slate-800' : ''}`}>{viewingRecord ? 'NEW GREEN' : (mapCompleted ? 'NEW GREEN' : (mapActive ? 'CLOSE GREEN' : 'START GREEN'))}</button>
-                    {!mapCompleted && !viewingRecord && <button disabled={!mapActive} onPointerDown={() => setIsBunker(true)} onPointerUp={() => setIsBunker(false)} className={`flex-1 h-20 rounded-[2.2rem] font-black text-[10px] tracking-widest uppercase transition-all border border-white/5 flex items-center justify-center gap-2 ${isBunker ? 'bg-orange-600 text-white shadow-orange-600/50' : 'bg-orange-400 text-slate-950'}`}>{isBunker ? 'RECORDING' : 'BUNKER (HOLD)'}</button>}
+                    <button onClick={() => { setViewingRecord(null); if (mapCompleted) { setMapPoints([]); setMapCompleted(false); setMapActive(false); } else if (!mapActive) { setMapPoints(pos && !deskMode ? [pos] : []); setMapActive(true); } else finalizeMapping(); }} className={`flex-1 h-20 rounded-[2.2rem] font-black text-[10px] tracking-widest uppercase border border-white/10 transition-all flex items-center justify-center gap-2 ${mapActive ? 'bg-blue-600 text-white' : 'bg-emerald-600 text-white active:scale-95'} ${mapCompleted ? 'bg-slate-800' : ''}`}>{viewingRecord ? 'NEW GREEN' : (mapCompleted ? 'NEW GREEN' : (mapActive ? 'CLOSE GREEN' : 'START GREEN'))}</button>
+                    {!mapCompleted && !viewingRecord && (deskMode
+                      ? <button disabled={!mapActive} onClick={() => setIsBunker(!isBunker)} className={`flex-1 h-20 rounded-[2.2rem] font-black text-[10px] tracking-widest uppercase transition-all border border-white/5 flex items-center justify-center gap-2 ${isBunker ? 'bg-orange-600 text-white shadow-orange-600/50' : 'bg-orange-400 text-slate-950'}`}>{isBunker ? 'BUNKER ON' : 'BUNKER (TAP)'}</button>
+                      : <button disabled={!mapActive} onPointerDown={() => setIsBunker(true)} onPointerUp={() => setIsBunker(false)} className={`flex-1 h-20 rounded-[2.2rem] font-black text-[10px] tracking-widest uppercase transition-all border border-white/5 flex items-center justify-center gap-2 ${isBunker ? 'bg-orange-600 text-white shadow-orange-600/50' : 'bg-orange-400 text-slate-950'}`}>{isBunker ? 'RECORDING' : 'BUNKER (HOLD)'}</button>)}
                     {mapActive && !viewingRecord && <button onClick={() => setShowMapRestartConfirm(true)} className="w-16 h-20 bg-slate-800 rounded-[2.2rem] flex items-center justify-center border border-white/10 text-slate-400 shrink-0"><RotateCcw size={20} /></button>}
                   </div>
                   <div className="pointer-events-auto bg-[#0f172a]/95 backdrop-blur-2xl border border-white/10 rounded-[2.5rem] p-1 w-full shadow-2xl overflow-hidden">
                     <div className="grid grid-cols-2 gap-1 mb-1">
-                      <div className="bg-white/[0.03] p-1.5 rounded-3xl border border-white/5 text-center"><span className="text-slate-500 text-[8px] font-black uppercase block mb-0.5 tracking-widest">AREA</span><div className="text-2xl font-black text-emerald-400 tabular-nums leading-none">{viewingRecord ? viewingRecord.primaryValue.replace(/[a-z²]/gi, '') : (areaMetrics ? Math.round(areaMetrics.area * (units === 'Yards' ? 1.196 : 1)) : '--')}<span className="text-[9px] ml-0.5 opacity-50 uppercase">{units === 'Yards' ? 'yd²' : 'm²'}</span></div></div>
-                      <div className="bg-white/[0.03] p-1.5 rounded-3xl border border-white/5 text-center"><span className="text-slate-500 text-[8px] font-black uppercase block mb-0.5 tracking-widest">BUNKER %</span><div className="text-2xl font-black text-amber-500 tabular-nums leading-none">{viewingRecord ? viewingRecord.secondaryValue?.split(':')[1].trim().replace('%', '') : (areaMetrics ? areaMetrics.bunkerPct : '--')}<span className="text-[12px] ml-0.5 opacity-50">%</span></div></div>
+                      <div className="bg-white/[0.03] p-1.5 rounded-3xl border border-white/5 text-center"><span className="text-slate-500 text-[8px] font-black uppercase block mb-0.5 tracking-widest">AREA</span><div className="text-2xl font-black text-emerald-400 tabular-nums leading-none">{viewedArea !== null ? Math.round(viewedArea * (units === 'Yards' ? 1.196 : 1)) : '--'}<span className="text-[9px] ml-0.5 opacity-50 uppercase">{units === 'Yards' ? 'yd²' : 'm²'}</span></div>{shownUncertainty.area !== undefined && <span className="text-[8px] font-black text-emerald-400/70 tabular-nums">{formatUncertainty(shownUncertainty.area, 'area', units)}</span>}</div>
+                      <div className="bg-white/[0.03] p-1.5 rounded-3xl border border-white/5 text-center"><span className="text-slate-500 text-[8px] font-black uppercase block mb-0.5 tracking-widest">BUNKER %</span><div className="text-2xl font-black text-amber-500 tabular-nums leading-none">{viewingRecord ? (bunkerPercent(viewingRecord.measured) ?? '--') : (areaMetrics ? areaMetrics.bunkerPct : '--')}<span className="text-[12px] ml-0.5 opacity-50">%</span></div></div>
                     </div>
+                    {shownGreen && (
+                      <div className="flex gap-1 items-stretch">
+                        <div className="flex-1 grid grid-cols-3 gap-1">
+                          {[['LENGTH', shownGreen.dimensions?.length], ['WIDTH', shownGreen.dimensions?.width], ['EFF Ø', shownGreen.dimensions?.effectiveDiameter]].map(([label, value]) => (
+                            <div key={label as string} className="bg-white/[0.03] p-1.5 rounded-3xl border border-white/5 text-center"><span className="text-slate-500 text-[8px] font-black uppercase block mb-0.5 tracking-widest">{label}</span><div className="text-lg font-black text-sky-400 tabular-nums leading-none">{value !== undefined ? formatDist(value as number, units) : '--'}<span className="text-[9px] ml-0.5 opacity-50 uppercase">{units === 'Yards' ? 'yd' : 'm'}</span></div></div>
+                          ))}
+                        </div>
+                        <button onClick={() => setApproachDraft(approachDraft ? null : [])} className={`w-16 rounded-3xl border border-white/10 flex flex-col items-center justify-center gap-0.5 active:scale-95 transition-all ${approachDraft ? 'bg-blue-600 text-white' : 'bg-slate-800 text-blue-400'}`}><Navigation2 size={14} /><span className="text-[7px] font-black uppercase tracking-widest">{approachDraft ? (approachDraft.length === 0 ? 'Tap tail' : 'Tap head') : 'Approach'}</span></button>
+                      </div>
+                    )}
+                    {shownGreen?.dimensions && shownGreen.dimensions.segments.length > 1 && <p className="text-center text-[8px] font-black uppercase tracking-[0.2em] text-sky-400/70 py-1">Segmented green · {shownGreen.dimensions.segments.map(seg => `${formatDist(seg.length, units)}×${formatDist(seg.width, units)}`).join(' + ')}</p>}
                   </div>
                 </>
               )}
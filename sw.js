@@ -0,0 +1,44 @@
+// Service worker template. The build fills in the version and the list of built files (see vite.config.ts),
+// so every release installs as a new worker and the page can offer to switch to it.
+const VERSION = '__VERSION__';
+const PRECACHE = __PRECACHE_FILES__;
+
+const SHELL_CACHE = `golf-shell-${VERSION}`;
+// Earlier releases kept Tailwind and Google Fonts from their CDNs here; both are now built into the bundle.
+const OLD_RUNTIME_CACHE = 'golf-runtime';
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(caches.keys()
+    .then(keys => Promise.all(keys.filter(key => (key.startsWith('golf-shell-') && key !== SHELL_CACHE) || key === OLD_RUNTIME_CACHE).map(key => caches.delete(key))))
+    .then(() => self.clients.claim()));
+});
+
+// The page asks for this once the user accepts the update prompt.
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+const fromNetwork = request => fetch(request).then(response => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(SHELL_CACHE).then(cache => cache.put(request, copy));
+  }
+  return response;
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  // Map tiles go straight to the network (or the tile cache); nothing else is fetched from other origins.
+  if (url.origin !== self.location.origin) return;
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match('/index.html').then(hit => hit || fetch(request)));
+    return;
+  }
+  event.respondWith(caches.match(request).then(hit => hit || fromNetwork(request)));
+});
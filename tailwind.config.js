@@ -0,0 +1,8 @@
+/** Built at compile time rather than by the Play CDN, so the stylesheet ships in the bundle and works offline. */
+export default {
+  content: ['./index.html', './index.tsx', './components/**/*.tsx', './utils/**/*.ts'],
+  theme: {
+    extend: {}
+  },
+  plugins: []
+};
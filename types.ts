@@ -1,16 +1,277 @@
 
 export type AppMode = 'Trk' | 'Grn';
+export type AppView = 'landing' | 'track' | 'green' | 'width' | 'holes' | 'worksheet' | 'report';
 export type MapProvider = 'Google' | 'OSM';
-export type UnitSystem = 'Meters' | 'Yards';
+export type UnitSystem = 'Yards' | 'Metres';
 export type PointType = 'green' | 'bunker';
+export type Gender = 'Male' | 'Female';
+export type PlayerType = 'Scratch' | 'Bogey';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
 
 export interface GeoPoint {
   lat: number;
   lng: number;
   alt: number | null;
   accuracy: number;
+  altAccuracy: number | null;
   timestamp: number;
   type?: PointType;
+  /** Averaged points only: standard error of the mean position (metres) and how many fixes went into it. */
+  precision?: number;
+  samples?: number;
+  /** Where `alt` came from, once it has been through the altimetry calibration. */
+  altSource?: AltitudeSource;
+  /** Placed by hand on the map (a desk tap or an edited vertex) rather than fixed by GPS. */
+  placed?: boolean;
+}
+
+/** GNSS height, a pressure sensor on the device, or pressure readings typed in from a handheld barometer. */
+export type AltitudeSource = 'gnss' | 'barometer' | 'manual';
+
+/** Which altitude source to use and the calibration that turns its readings into heights. */
+export interface AltimetrySettings {
+  source: AltitudeSource;
+  /** Sea-level pressure (QNH) in hPa used to turn pressure into altitude. */
+  seaLevelPressure: number;
+  /** Metres added to GNSS heights, set by calibrating at a benchmark. */
+  gnssOffset: number;
+  benchmark: { name: string; altitude: number; calibratedAt: number } | null;
+}
+
+export interface PressureReading {
+  pressure: number;
+  source: 'barometer' | 'manual';
+  timestamp: number;
+}
+
+/** How raw GPS fixes are screened and smoothed before they reach the measuring modes. */
+export interface FilterSettings {
+  enabled: boolean;
+  /** Fixes reporting a horizontal accuracy worse than this (metres) are dropped. */
+  maxAccuracy: number;
+  /** Fixes implying a faster walk than this (m/s) are treated as jumps and dropped. */
+  maxSpeed: number;
+  smoothing: 'none' | 'kalman' | 'window';
+  windowSize: number;
+  /** Kalman process noise in m/s: how quickly the filter lets the position wander between fixes. */
+  processNoise: number;
+  /**
+   * Share (0–1) of a fix's error variance taken as common to fixes taken near each other, and so left out of the ±
+   * of distances and areas. An assumption, not a measured figure: 0 treats every fix's error as independent.
+   */
+  sharedVariance: number;
+}
+
+/** File formats the history can be exported to. */
+export type ExportFormat = 'kml' | 'gpx' | 'geojson' | 'csv';
+
+/** Which records go into an export (one course, or all when `courseId` is null) and the units written. */
+export interface ExportOptions {
+  courseId: string | null;
+  units: UnitSystem;
+}
+
+export type MapStyle = 'Street' | 'Satellite';
+
+export interface TileBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/** A course's map area saved for offline use: both map styles, every zoom from `minZoom` to `maxZoom`. */
+export interface CachedArea {
+  courseId: string;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  bytes: number;
+  downloadedAt: number;
+}
+
+/** "Hold to average" capture: stop after `duration` seconds, or sooner once the standard error reaches `targetError` metres. */
+export interface AveragingSettings {
+  duration: number;
+  targetError: number;
+}
+
+/** Typical shot lengths (tee shot, then every later full shot) for one rated golfer, in yards. */
+export interface ShotProfile {
+  gender: Gender;
+  player: PlayerType;
+  teeShot: number;
+  secondShot: number;
+}
+
+/** Shot lengths and the width of the band drawn across each landing zone (yards). */
+export interface LandingZoneSettings {
+  profiles: ShotProfile[];
+  bandWidth: number;
+}
+
+/** Effective playing length for one rated golfer. All distances in metres. */
+export interface PlayingLength {
+  gender: Gender;
+  player: PlayerType;
+  measured: number;
+  elevationAdjustment: number;
+  effectiveLength: number;
+  shotsToGreen: number;
+  landingZones: number[];
+}
+
+/** One part of a green measured on its own; regular greens have a single segment. Distances in metres. */
+export interface GreenSegment {
+  length: number;
+  width: number;
+  lengthAxis: [LatLng, LatLng];
+  widthAxis: [LatLng, LatLng];
+}
+
+export interface GreenDimensions {
+  length: number;
+  width: number;
+  effectiveDiameter: number;
+  approachBearing: number;
+  approachSource: 'track' | 'arrow';
+  /** Tail and head of the user-drawn approach arrow, when that was the source. */
+  approachArrow?: [LatLng, LatLng];
+  segments: GreenSegment[];
+}
+
+/**
+ * One-sigma uncertainty of a record's measured values in metres (square metres for area), propagated from the accuracy
+ * of its points. A value is missing when a point it depends on has no accuracy recorded.
+ */
+export interface MeasurementUncertainty {
+  distance?: number;
+  legs?: number[];
+  elevation?: number;
+  area?: number;
+  perimeter?: number;
+}
+
+/**
+ * What a record measures, worked out from its points when it is saved or edited. Displays and exports format these in
+ * the units chosen at the time; a value is missing when it does not apply to the record type or could not be measured.
+ * The names leave the unit out, as every value is in metres or square metres.
+ */
+export interface MeasuredValues {
+  /** distance_m. Tracks: start through the pivots to the finish; widths: edge to edge. */
+  distance?: number;
+  /** legs_m. Tracks: start to the first pivot, pivot to pivot, and the last pivot to the finish. */
+  legs?: number[];
+  /** elevation_m. Tracks: finish height minus start height, when both are known. */
+  elevation?: number;
+  /** area_m2. Greens. */
+  area?: number;
+  /** perimeter_m. Greens. */
+  perimeter?: number;
+  /** bunker_m. Greens: length of the perimeter that borders a bunker. */
+  bunker?: number;
+}
+
+export interface SavedRecord {
+  id: string;
+  type: 'Track' | 'Green' | 'Width';
+  date: number;
+  measured: MeasuredValues;
+  points: GeoPoint[];
+  pivots?: GeoPoint[];
+  /** Track records: every fix walked between start and finish, thinned to the breadcrumb spacing. */
+  path?: GeoPoint[];
+  playingLengths?: PlayingLength[];
+  /** Width records: degrees the crossing was off square to the hole centreline, when a centreline was known. */
+  skew?: number;
+  dimensions?: GreenDimensions;
+  uncertainty?: MeasurementUncertainty;
+  /** Position filter settings in force when the record was measured. */
+  filter?: FilterSettings;
+  /** Edited records: the id of the record this one revises, and its revision number (the original is 1). */
+  revisionOf?: string;
+  revision?: number;
+  /** Altitude source behind the record's elevation change; 'mixed' when its points came from different sources. */
+  altitudeSource?: AltitudeSource | 'mixed';
+  /** Imported records only: the file format and name they came from, e.g. "GPX · garmin.gpx". */
+  source?: string;
+  /** Outline or line drawn elsewhere (e.g. Google Earth) and imported for comparison, not measured on the ground. */
+  reference?: boolean;
+  /** Measured at a desk by tapping on map imagery rather than walked with GPS; such points carry no accuracy or height. */
+  desk?: boolean;
+  courseId?: string;
+  holeNumber?: number;
+  teeId?: string;
+}
+
+/**
+ * A record as written before measured values were stored: display strings such as "412.3yd" and "Elev: +12.1ft",
+ * in whatever units were chosen at the time, in their place.
+ */
+export type LegacyRecord = Omit<SavedRecord, 'measured'> & { measured?: MeasuredValues; primaryValue?: string; secondaryValue?: string };
+
+/** A set of tee markers played as one course, e.g. White, Yellow or Red. */
+export interface TeeSet {
+  id: string;
+  name: string;
+  colour: string;
+}
+
+export interface Hole {
+  number: number;
+  par: number | null;
+}
+
+export interface Course {
+  id: string;
+  name: string;
+  createdAt: number;
+  tees: TeeSet[];
+  holes: Hole[];
+}
+
+/** Where newly saved records are filed: the course, hole and tee currently selected. */
+export interface CourseSelection {
+  courseId: string | null;
+  holeNumber: number;
+  teeId: string | null;
+}
+
+export type ObstacleFactor =
+  | 'topography'
+  | 'fairway'
+  | 'greenTarget'
+  | 'recoveryRough'
+  | 'bunkers'
+  | 'crossing'
+  | 'outOfBounds'
+  | 'water'
+  | 'trees'
+  | 'greenSurface';
+
+/** A rater's entry for one obstacle factor: the table value (0-10) and the ids of the adjustments that apply. */
+export interface ObstacleEntry {
+  base: number;
+  adjustments: string[];
+}
+
+export type ObstacleValues = Record<ObstacleFactor, ObstacleEntry>;
+
+/** Obstacle ratings for one hole, tee set and gender, for the scratch and bogey golfer. */
+export interface ObstacleWorksheet {
+  id: string;
+  courseId: string;
+  holeNumber: number;
+  teeId: string;
+  gender: Gender;
+  updatedAt: number;
+  scratch: ObstacleValues;
+  bogey: ObstacleValues;
 }
 
 export interface TrackingState {
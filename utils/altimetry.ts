@@ -0,0 +1,105 @@
+import { AltimetrySettings, AltitudeSource, GeoPoint, PressureReading } from '../types.ts';
+
+export const STANDARD_PRESSURE = 1013.25;
+
+export const DEFAULT_ALTIMETRY_SETTINGS: AltimetrySettings = {
+  source: 'gnss',
+  seaLevelPressure: STANDARD_PRESSURE,
+  gnssOffset: 0,
+  benchmark: null
+};
+
+export const ALTITUDE_SOURCE_LABELS: Record<AltitudeSource, string> = {
+  gnss: 'GNSS',
+  barometer: 'Barometer',
+  manual: 'Manual pressure'
+};
+
+// International standard atmosphere, troposphere: h = 44330.8 · (1 − (p / p0)^(1 / 5.255)).
+const ISA_HEIGHT = 44330.8;
+const ISA_EXPONENT = 5.255;
+
+// A sensor reading older than this is treated as lost and GNSS heights are used until it comes back.
+const SENSOR_TIMEOUT = 10000;
+
+/**
+ * Height error of a pressure altitude. Phone sensors resolve about 0.01 hPa but drift with weather over a round;
+ * typed-in readings carry the 0.1 hPa resolution of a handheld barometer (about 0.8 m).
+ */
+const PRESSURE_ALT_ACCURACY: Record<PressureReading['source'], number> = { barometer: 0.5, manual: 1 };
+
+export const pressureAltitude = (pressure: number, seaLevelPressure: number): number =>
+  ISA_HEIGHT * (1 - Math.pow(pressure / seaLevelPressure, 1 / ISA_EXPONENT));
+
+/** Sea-level pressure that makes `pressure` read as `altitude`: the calibration taken at a benchmark. */
+export const seaLevelPressureFor = (pressure: number, altitude: number): number =>
+  pressure / Math.pow(1 - altitude / ISA_HEIGHT, ISA_EXPONENT);
+
+/**
+ * The fix with its altitude taken from the chosen source. Pressure sources need a reading of their own kind (and a
+ * sensor reading must be recent); otherwise the fix keeps its GNSS height, corrected by the benchmark offset.
+ */
+export const applyAltitude = (fix: GeoPoint, settings: AltimetrySettings, reading: PressureReading | null): GeoPoint => {
+  const usable = reading && reading.source === settings.source && (reading.source === 'manual' || fix.timestamp - reading.timestamp <= SENSOR_TIMEOUT);
+  if (usable) {
+    return { ...fix, alt: pressureAltitude(reading.pressure, settings.seaLevelPressure), altAccuracy: PRESSURE_ALT_ACCURACY[reading.source], altSource: reading.source };
+  }
+  if (fix.alt === null) return fix;
+  return { ...fix, alt: fix.alt + settings.gnssOffset, altSource: 'gnss' };
+};
+
+/**
+ * Calibrates at a point of known height: sea-level pressure from the pressure reading, if there is one, and the GNSS
+ * offset from the uncorrected GNSS height, if there is one.
+ */
+export const calibrateAtBenchmark = (settings: AltimetrySettings, name: string, altitude: number, reading: PressureReading | null, gnssAltitude: number | null): AltimetrySettings => ({
+  ...settings,
+  seaLevelPressure: reading ? seaLevelPressureFor(reading.pressure, altitude) : settings.seaLevelPressure,
+  gnssOffset: gnssAltitude !== null ? altitude - gnssAltitude : settings.gnssOffset,
+  benchmark: { name: name.trim() || 'Benchmark', altitude, calibratedAt: Date.now() }
+});
+
+/** The one source behind a record's heights, 'mixed' if its points disagree, or undefined when none has a height. */
+export const recordAltitudeSource = (points: GeoPoint[]): AltitudeSource | 'mixed' | undefined => {
+  const sources = [...new Set(points.filter(p => p.alt !== null && p.altSource).map(p => p.altSource!))];
+  return sources.length > 1 ? 'mixed' : sources[0];
+};
+
+/** Short label for a record's altitude source, e.g. "Barometer" or "Mixed altitude sources". */
+export const describeAltitudeSource = (source: AltitudeSource | 'mixed' | undefined): string =>
+  source === 'mixed' ? 'Mixed altitude sources' : source ? ALTITUDE_SOURCE_LABELS[source] : 'GNSS (uncalibrated)';
+
+/** The Generic Sensor API's barometer, which TypeScript's DOM library does not declare. Pressure is in pascals. */
+interface PressureSensor extends EventTarget {
+  readonly pressure: number;
+  start(): void;
+  stop(): void;
+}
+type PressureSensorConstructor = new (options: { frequency: number }) => PressureSensor;
+type SensorErrorEvent = Event & { error: Error };
+
+const pressureSensor = (): PressureSensorConstructor | null => {
+  const Sensor = (window as Window & { PressureSensor?: PressureSensorConstructor }).PressureSensor;
+  return typeof Sensor === 'function' ? Sensor : null;
+};
+
+/**
+ * Starts the device pressure sensor where the browser exposes one through the Generic Sensor API, reporting in hPa.
+ * Returns a stop function, or null when there is no sensor or permission is refused.
+ */
+export const startBarometer = (onReading: (reading: PressureReading) => void): (() => void) | null => {
+  const Sensor = pressureSensor();
+  if (!Sensor) return null;
+  try {
+    const sensor = new Sensor({ frequency: 1 });
+    sensor.addEventListener('reading', () => onReading({ pressure: sensor.pressure / 100, source: 'barometer', timestamp: Date.now() }));
+    sensor.addEventListener('error', e => console.warn((e as SensorErrorEvent).error));
+    sensor.start();
+    return () => sensor.stop();
+  } catch (e) {
+    console.warn(e);
+    return null;
+  }
+};
+
+export const hasBarometer = () => pressureSensor() !== null;
@@ -0,0 +1,96 @@
+import { Course, GeoPoint, LegacyRecord, ObstacleWorksheet, SavedRecord } from '../types.ts';
+import { withMeasuredValues } from './recordMetrics.ts';
+import { StoredData, StoredSettings } from './storage.ts';
+
+/** Bump when the shape of a backup changes, and teach `readBackup` to upgrade the older versions. */
+export const BACKUP_SCHEMA = 2;
+const BACKUP_APP = 'golf-rating-toolkit';
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface BackupFile extends StoredData {
+  app: typeof BACKUP_APP;
+  schema: number;
+  exportedAt: number;
+}
+
+export interface BackupPreview {
+  fileName: string;
+  backup: BackupFile;
+  /** Backup records whose id is already in the history. */
+  existing: number;
+}
+
+const SETTING_KEYS: (keyof StoredSettings)[] = ['selection', 'zones', 'filter', 'averaging', 'altimetry'];
+
+/** The whole database as one JSON file, nothing rounded or reformatted. */
+export const createBackup = (data: StoredData): string => {
+  const backup: BackupFile = { app: BACKUP_APP, schema: BACKUP_SCHEMA, exportedAt: Date.now(), ...data };
+  return JSON.stringify(backup, null, 2);
+};
+
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null;
+const isPoint = (p: unknown): p is GeoPoint => isObject(p) && typeof p.lat === 'number' && typeof p.lng === 'number';
+/** A record as this or an earlier version wrote it; `withMeasuredValues` brings it up to date. */
+export const isRecord = (r: unknown): r is LegacyRecord => isObject(r) && typeof r.id === 'string' && (r.type === 'Track' || r.type === 'Green' || r.type === 'Width')
+  && typeof r.date === 'number' && Array.isArray(r.points) && r.points.every(isPoint) && (r.measured === undefined || isObject(r.measured));
+const isCourse = (c: unknown): c is Course => isObject(c) && typeof c.id === 'string' && typeof c.name === 'string' && Array.isArray(c.tees) && Array.isArray(c.holes);
+const isWorksheet = (w: unknown): w is ObstacleWorksheet => isObject(w) && typeof w.id === 'string' && typeof w.courseId === 'string' && isObject(w.scratch) && isObject(w.bogey);
+
+/**
+ * Backup held in `text`, or null when the file is JSON of some other kind (GeoJSON, say).
+ * Throws when it is a backup that cannot be restored safely: a newer schema or an entry that does not check out.
+ */
+export const readBackup = (text: string, fileName: string): BackupFile | null => {
+  let data: unknown;
+  try { data = JSON.parse(text); } catch (e) { return null; }
+  if (!isObject(data) || data.app !== BACKUP_APP) return null;
+  const { schema } = data;
+  if (typeof schema !== 'number' || schema > BACKUP_SCHEMA) throw new Error(`${fileName} was made by a newer version of the app (backup schema ${schema})`);
+  const check = <T>(list: unknown, valid: (item: unknown) => item is T, label: string): T[] => {
+    if (!Array.isArray(list)) throw new Error(`${fileName} is not a complete backup: no ${label} list`);
+    const bad = list.findIndex(item => !valid(item));
+    if (bad >= 0) throw new Error(`${fileName}: ${label} entry ${bad + 1} is damaged`);
+    return list.filter(valid);
+  };
+  const records = check(data.records, isRecord, 'records');
+  const courses = check(data.courses, isCourse, 'courses');
+  const worksheets = check(data.worksheets, isWorksheet, 'worksheets');
+  const stored = isObject(data.settings) ? data.settings : {};
+  const settings: Partial<StoredSettings> = {};
+  const copySetting = <K extends keyof StoredSettings>(key: K) => { if (stored[key] != null) settings[key] = stored[key] as StoredSettings[K]; };
+  SETTING_KEYS.forEach(copySetting);
+  return {
+    app: BACKUP_APP,
+    schema,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    // Schema 1 records carry display strings in place of the measured values; a later record missing them is mended the same way.
+    records: records.map(withMeasuredValues),
+    courses,
+    worksheets,
+    settings
+  };
+};
+
+export const previewBackup = (fileName: string, backup: BackupFile, history: SavedRecord[]): BackupPreview => ({
+  fileName,
+  backup,
+  existing: backup.records.filter(r => history.some(h => h.id === r.id)).length
+});
+
+/**
+ * Replace takes the backup as it is. Merge adds what is missing by id and keeps the device's records, courses
+ * and settings where both have one; worksheets go to whichever was edited last.
+ */
+export const restoreBackup = (current: StoredData, backup: BackupFile, mode: RestoreMode): StoredData => {
+  const { records, courses, worksheets, settings } = backup;
+  if (mode === 'replace') return { records: [...records].sort((a, b) => b.date - a.date), courses, worksheets, settings };
+  const sheets = new Map(current.worksheets.map(w => [w.id, w]));
+  worksheets.forEach(w => { const mine = sheets.get(w.id); if (!mine || w.updatedAt > mine.updatedAt) sheets.set(w.id, w); });
+  return {
+    records: [...current.records, ...records.filter(r => !current.records.some(h => h.id === r.id))].sort((a, b) => b.date - a.date),
+    courses: [...current.courses, ...courses.filter(c => !current.courses.some(mine => mine.id === c.id))],
+    worksheets: [...sheets.values()],
+    settings: { ...settings, ...current.settings }
+  };
+};
@@ -0,0 +1,175 @@
+import { LatLng, SavedRecord, UnitSystem } from '../types.ts';
+import { spreadsheetDate, toCSV } from './fileUtils.ts';
+import { LocalPoint, calculateDistance, toLocalMetres, unitConverters, unitLabels } from './geoUtils.ts';
+import { trackPath } from './landingZones.ts';
+import { recordMetrics } from './recordMetrics.ts';
+
+// An unfiled reference is matched to a field record by position: starts and finishes, or green centres, this close.
+const NEAR_DISTANCE = 30;
+// The overlap is counted on a grid of this many cells across the larger side of the two outlines.
+const OVERLAP_GRID = 200;
+// Outline edges are sampled at this spacing for the Hausdorff distance, as the furthest point can fall between vertices.
+const HAUSDORFF_STEP = 0.25;
+
+/** A walked record and a desk or reference measurement of the same track or green. */
+export interface ComparisonPair {
+  field: SavedRecord;
+  reference: SavedRecord;
+}
+
+/** How far the two records of a pair disagree. Lengths in metres, differences field minus reference. */
+export interface RecordComparison extends ComparisonPair {
+  /** Tracks: played distance; greens: perimeter. */
+  distanceDifference: number | null;
+  elevationDifference: number | null;
+  /** Tracks only: how far apart the two starts and the two finishes are. */
+  startOffset: number | null;
+  endOffset: number | null;
+  areaDifference: number | null;
+  /** Greens only: shared area over combined area, 0 to 1. */
+  overlap: number | null;
+  /** Greens only: the furthest any point of either outline lies from the other outline. */
+  hausdorff: number | null;
+}
+
+/**
+ * Records that stand as a check on the walked ones: desk measurements, and drawings or tracks from other devices that
+ * were imported as references.
+ */
+export const isReferenceRecord = (r: SavedRecord) => !!(r.desk || r.reference);
+
+const centre = (points: LatLng[]): LatLng => ({
+  lat: points.reduce((s, p) => s + p.lat, 0) / points.length,
+  lng: points.reduce((s, p) => s + p.lng, 0) / points.length
+});
+
+/** Even-odd rule, so an outline that crosses itself still counts each enclosed part once. */
+const inside = (p: LocalPoint, ring: LocalPoint[]) => {
+  let hit = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i], b = ring[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) hit = !hit;
+  }
+  return hit;
+};
+
+const segmentDistance = (p: LocalPoint, a: LocalPoint, b: LocalPoint) => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const len = dx * dx + dy * dy;
+  const t = len > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const ringDistance = (p: LocalPoint, ring: LocalPoint[]) => {
+  let best = Infinity;
+  for (let i = 0; i < ring.length; i++) best = Math.min(best, segmentDistance(p, ring[i], ring[(i + 1) % ring.length]));
+  return best;
+};
+
+/** Intersection over union of two outlines, counted on a grid over both. Accurate to well under 1% at green sizes. */
+const outlineOverlap = (a: LocalPoint[], b: LocalPoint[]): number => {
+  const all = [...a, ...b];
+  const minX = Math.min(...all.map(p => p.x)), maxX = Math.max(...all.map(p => p.x));
+  const minY = Math.min(...all.map(p => p.y)), maxY = Math.max(...all.map(p => p.y));
+  const cell = Math.max(maxX - minX, maxY - minY) / OVERLAP_GRID;
+  if (!(cell > 0)) return 0;
+  let both = 0, either = 0;
+  for (let x = minX + cell / 2; x < maxX; x += cell) {
+    for (let y = minY + cell / 2; y < maxY; y += cell) {
+      const inA = inside({ x, y }, a), inB = inside({ x, y }, b);
+      if (inA && inB) both++;
+      if (inA || inB) either++;
+    }
+  }
+  return either > 0 ? both / either : 0;
+};
+
+const directedHausdorff = (from: LocalPoint[], to: LocalPoint[]) => {
+  let worst = 0;
+  for (let i = 0; i < from.length; i++) {
+    const a = from[i], b = from[(i + 1) % from.length];
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / HAUSDORFF_STEP));
+    for (let s = 0; s < steps; s++) {
+      const t = s / steps;
+      worst = Math.max(worst, ringDistance({ x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) }, to));
+    }
+  }
+  return worst;
+};
+
+const difference = (a: number | null, b: number | null) => a !== null && b !== null ? a - b : null;
+
+export const compareRecords = (field: SavedRecord, reference: SavedRecord): RecordComparison => {
+  const f = recordMetrics(field);
+  const r = recordMetrics(reference);
+  const comparison: RecordComparison = {
+    field, reference,
+    distanceDifference: difference(field.type === 'Green' ? f.perimeter : f.distance, reference.type === 'Green' ? r.perimeter : r.distance),
+    elevationDifference: difference(f.elevationChange, r.elevationChange),
+    startOffset: null, endOffset: null, areaDifference: difference(f.area, r.area), overlap: null, hausdorff: null
+  };
+  if (field.type === 'Track') {
+    const a = trackPath(field), b = trackPath(reference);
+    comparison.startOffset = calculateDistance(a[0], b[0]);
+    comparison.endOffset = calculateDistance(a[a.length - 1], b[b.length - 1]);
+  } else if (field.type === 'Green' && field.points.length >= 3 && reference.points.length >= 3) {
+    const origin = centre(field.points);
+    const a = field.points.map(p => toLocalMetres(p, origin));
+    const b = reference.points.map(p => toLocalMetres(p, origin));
+    comparison.overlap = outlineOverlap(a, b);
+    comparison.hausdorff = Math.max(directedHausdorff(a, b), directedHausdorff(b, a));
+  }
+  return comparison;
+};
+
+const isNear = (field: SavedRecord, reference: SavedRecord) => {
+  if (field.type === 'Green') return calculateDistance(centre(field.points), centre(reference.points)) < NEAR_DISTANCE;
+  const a = trackPath(field), b = trackPath(reference);
+  return calculateDistance(a[0], b[0]) < NEAR_DISTANCE && calculateDistance(a[a.length - 1], b[b.length - 1]) < NEAR_DISTANCE;
+};
+
+/**
+ * Whether `reference` measures the same thing as `field`: the same type on the same hole (and tee, when both have
+ * one), or for a reference filed nowhere, in the same place.
+ */
+const isCounterpart = (field: SavedRecord, reference: SavedRecord) => {
+  if (field.type !== reference.type || field.type === 'Width' || field.points.length < 2 || reference.points.length < 2) return false;
+  if (reference.courseId === undefined) return isNear(field, reference);
+  return reference.courseId === field.courseId && reference.holeNumber === field.holeNumber && (!field.teeId || !reference.teeId || field.teeId === reference.teeId);
+};
+
+/** Records replaced by a later revision are left out, so only the current version of each measurement is compared. */
+const current = (history: SavedRecord[]) => history.filter(r => !history.some(h => h.revisionOf === r.id));
+
+/** Every pair the record belongs to, from either side. Cheap; the comparison itself is left to `compareRecords`. */
+export const pairsFor = (history: SavedRecord[], record: SavedRecord): ComparisonPair[] => {
+  const records = current(history);
+  if (isReferenceRecord(record)) return records.filter(f => !isReferenceRecord(f) && isCounterpart(f, record)).map(field => ({ field, reference: record }));
+  return records.filter(r => isReferenceRecord(r) && isCounterpart(record, r)).map(reference => ({ field: record, reference }));
+};
+
+/** Pairs for every walked track and green filed against a hole. */
+export const holePairs = (history: SavedRecord[], courseId: string, holeNumber: number): ComparisonPair[] =>
+  current(history)
+    .filter(r => r.courseId === courseId && r.holeNumber === holeNumber && !isReferenceRecord(r))
+    .flatMap(r => pairsFor(history, r));
+
+/** Short name for the reference side, e.g. "Desk" or "KML reference · Green 7". */
+export const describeReference = (r: SavedRecord) => r.desk ? 'Desk' : r.source || 'Reference';
+
+export const comparisonsToCSV = (comparisons: RecordComparison[], units: UnitSystem): string => {
+  const u = unitLabels(units);
+  const { dist, elev, area } = unitConverters(units);
+  return toCSV([
+    ['Type', 'Field record', 'Field date', 'Reference record', 'Reference', `Field distance (${u.dist})`, `Reference distance (${u.dist})`, `Distance difference (${u.dist})`, `Elevation difference (${u.elev})`, `Start offset (${u.dist})`, `Finish offset (${u.dist})`, `Area difference (${u.area})`, 'Overlap (IoU %)', `Hausdorff (${u.dist})`],
+    ...comparisons.map(c => {
+      const f = recordMetrics(c.field), r = recordMetrics(c.reference);
+      return [
+        c.field.type, c.field.id, spreadsheetDate(c.field.date), c.reference.id, describeReference(c.reference),
+        dist(c.field.type === 'Green' ? f.perimeter : f.distance), dist(c.reference.type === 'Green' ? r.perimeter : r.distance), dist(c.distanceDifference),
+        elev(c.elevationDifference), dist(c.startOffset), dist(c.endOffset), area(c.areaDifference),
+        c.overlap === null ? '' : (c.overlap * 100).toFixed(1), dist(c.hausdorff)
+      ];
+    })
+  ]);
+};
@@ -0,0 +1,51 @@
+import { AppView, Course, CourseSelection, Hole, SavedRecord, TeeSet } from '../types.ts';
+
+export const HOLE_COUNT = 18;
+
+export const DEFAULT_TEES: Omit<TeeSet, 'id'>[] = [
+  { name: 'White', colour: '#f8fafc' },
+  { name: 'Yellow', colour: '#facc15' },
+  { name: 'Red', colour: '#ef4444' }
+];
+
+export const generateId = () => Math.random().toString(36).substr(2, 9);
+
+export const createCourse = (name: string): Course => ({
+  id: generateId(),
+  name: name.trim() || 'Unnamed Course',
+  createdAt: Date.now(),
+  tees: DEFAULT_TEES.map(t => ({ ...t, id: generateId() })),
+  holes: Array.from({ length: HOLE_COUNT }, (_, i): Hole => ({ number: i + 1, par: null }))
+});
+
+export const createTee = (name: string, colour: string): TeeSet => ({ id: generateId(), name: name.trim(), colour });
+
+export const findCourse = (courses: Course[], id: string | null | undefined) => courses.find(c => c.id === id) || null;
+
+export const findTee = (course: Course | null, id: string | null | undefined) => course?.tees.find(t => t.id === id) || null;
+
+/** Records filed against one hole, optionally narrowed to a single tee set. */
+export const recordsForHole = (history: SavedRecord[], courseId: string, holeNumber: number, teeId?: string | null) =>
+  history.filter(r => r.courseId === courseId && r.holeNumber === holeNumber && (!teeId || r.teeId === teeId));
+
+/** Human-readable filing label for a record, e.g. "H7 · Yellow". */
+export const describeRecordLocation = (record: SavedRecord, courses: Course[]): string | null => {
+  const course = findCourse(courses, record.courseId);
+  if (!course || !record.holeNumber) return null;
+  const tee = findTee(course, record.teeId);
+  return `H${record.holeNumber}${tee ? ` · ${tee.name}` : ''}`;
+};
+
+export const clampHole = (n: number) => Math.min(HOLE_COUNT, Math.max(1, n));
+
+export const defaultSelection = (course: Course | null): CourseSelection => ({
+  courseId: course?.id ?? null,
+  holeNumber: 1,
+  teeId: course?.tees[0]?.id ?? null
+});
+
+export const viewForRecord = (record: SavedRecord): AppView => {
+  if (record.type === 'Track') return 'track';
+  if (record.type === 'Width') return 'width';
+  return 'green';
+};
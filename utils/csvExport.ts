@@ -0,0 +1,59 @@
+import { Course, GeoPoint, SavedRecord, UnitSystem } from '../types.ts';
+import { findCourse, findTee } from './courseUtils.ts';
+import { spreadsheetDate, toCSV } from './fileUtils.ts';
+import { unitConverters, unitLabels } from './geoUtils.ts';
+import { recordMetrics } from './recordMetrics.ts';
+
+const filing = (record: SavedRecord, courses: Course[]) => {
+  const course = findCourse(courses, record.courseId);
+  return [course?.name || '', record.holeNumber ?? '', course ? findTee(course, record.teeId)?.name || '' : ''];
+};
+
+/**
+ * One row per record: filing, the measured values in the chosen units, and accuracy statistics. Legs get a column
+ * each, as many as the track with the most legs needs; imported and edited tracks can have any number of pivots.
+ */
+export const recordsToCSV = (records: SavedRecord[], units: UnitSystem, courses: Course[]): string => {
+  const u = unitLabels(units);
+  const c = unitConverters(units);
+  const metrics = records.map(recordMetrics);
+  const legColumns = Math.max(0, ...metrics.map(m => m.legs.length > 1 ? m.legs.length : 0));
+  return toCSV([
+    ['Record', 'Date', 'Course', 'Hole', 'Tee', 'Type', 'Reference', 'Desk', `Distance (${u.dist})`, `Distance ± (${u.dist})`, ...Array.from({ length: legColumns }, (_, i) => [`Leg ${i + 1} (${u.dist})`, `Leg ${i + 1} ± (${u.dist})`]).flat(), `Elevation change (${u.elev})`, `Elevation change ± (${u.elev})`, `Walked (${u.dist})`, `Area (${u.area})`, `Area ± (${u.area})`, `Perimeter (${u.dist})`, `Perimeter ± (${u.dist})`, `Bunker length (${u.dist})`, 'Bunker %', 'Skew (°)', `Mean accuracy (${u.dist})`, `Worst accuracy (${u.dist})`, `Mean vertical accuracy (${u.elev})`, 'Points', 'Source'],
+    ...records.map((r, row) => {
+      const m = metrics[row];
+      return [
+        r.id, spreadsheetDate(r.date), ...filing(r, courses), r.type, r.reference ? 'Yes' : '', r.desk ? 'Yes' : '',
+        c.dist(m.distance), c.dist(m.distanceUncertainty),
+        ...Array.from({ length: legColumns }, (_, i) => m.legs.length > 1 ? [c.dist(m.legs[i] ?? null), c.dist(m.legUncertainties[i] ?? null)] : ['', '']).flat(),
+        c.elev(m.elevationChange), c.elev(m.elevationUncertainty), c.dist(m.walked), c.area(m.area), c.area(m.areaUncertainty), c.dist(m.perimeter), c.dist(m.perimeterUncertainty), c.dist(m.bunkerLength), m.bunkerPercent,
+        r.skew !== undefined ? r.skew.toFixed(0) : '', c.dist(m.meanAccuracy), c.dist(m.maxAccuracy), c.elev(m.meanAltAccuracy), m.pointCount, r.source || ''
+      ];
+    })
+  ]);
+};
+
+/** Every stored point of a record with the part it plays: start, pivot, finish, outline, width edge or walked path. */
+const labelledPoints = (r: SavedRecord): { role: string; point: GeoPoint }[] => {
+  if (r.type === 'Track') return [
+    { role: 'Start', point: r.points[0] },
+    ...(r.pivots || []).map((point, i) => ({ role: `Pivot ${i + 1}`, point })),
+    { role: 'Finish', point: r.points[r.points.length - 1] },
+    ...(r.path || []).map(point => ({ role: 'Path', point }))
+  ];
+  if (r.type === 'Width') return r.points.map((point, i) => ({ role: `Edge ${i + 1}`, point }));
+  return r.points.map(point => ({ role: 'Outline', point }));
+};
+
+/** One row per point, keyed to the records file by record id. */
+export const pointsToCSV = (records: SavedRecord[], units: UnitSystem, courses: Course[]): string => {
+  const u = unitLabels(units);
+  const c = unitConverters(units);
+  return toCSV([
+    ['Record', 'Course', 'Hole', 'Tee', 'Type', 'Role', 'Sequence', 'Latitude', 'Longitude', `Altitude (${u.elev})`, `Accuracy (${u.dist})`, `Vertical accuracy (${u.elev})`, 'Surface', 'Time', `Averaged precision (${u.dist})`, 'Averaged fixes'],
+    ...records.flatMap(r => labelledPoints(r).map(({ role, point: p }, i) => [
+      r.id, ...filing(r, courses), r.type, role, i + 1, p.lat.toFixed(7), p.lng.toFixed(7), c.elev(p.alt), p.accuracy > 0 ? c.dist(p.accuracy) : '', c.elev(p.altAccuracy),
+      p.type || '', p.timestamp > 0 ? spreadsheetDate(p.timestamp) : '', p.precision !== undefined ? c.dist(p.precision) : '', p.samples ?? ''
+    ]))
+  ]);
+};
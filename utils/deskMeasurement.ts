@@ -0,0 +1,10 @@
+import { GeoPoint, LatLng } from '../types.ts';
+
+/**
+ * How close a tap must land to a green's first point to close it. Looser than the 1 m used on the ground, as a
+ * fingertip covers several metres of imagery at the zoom levels greens are drawn at.
+ */
+export const DESK_CLOSE_DISTANCE = 4;
+
+/** A point tapped on the imagery: no GPS accuracy (0, left out of accuracy statistics) and no height. */
+export const deskPoint = (at: LatLng): GeoPoint => ({ lat: at.lat, lng: at.lng, alt: null, accuracy: 0, altAccuracy: null, timestamp: Date.now(), placed: true });
@@ -0,0 +1,39 @@
+import { LatLng } from '../types.ts';
+import { calculateBearing, toLocalMetres } from './geoUtils.ts';
+
+/** A line of play to measure a width crossing against: a point on the centreline and its bearing. */
+export interface CentrelineReference {
+  point: LatLng;
+  bearing: number;
+}
+
+const distanceToSegment = (p: LatLng, a: LatLng, b: LatLng): number => {
+  const pp = toLocalMetres(p, a);
+  const pb = toLocalMetres(b, a);
+  const lenSq = pb.x * pb.x + pb.y * pb.y;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, (pp.x * pb.x + pp.y * pb.y) / lenSq));
+  return Math.hypot(pp.x - t * pb.x, pp.y - t * pb.y);
+};
+
+/** Bearing of the centreline leg closest to `point`, or null if the path has no legs. */
+export const centrelineBearingAt = (path: LatLng[], point: LatLng): number | null => {
+  let best: { d: number; bearing: number } | null = null;
+  for (let i = 1; i < path.length; i++) {
+    const d = distanceToSegment(point, path[i - 1], path[i]);
+    if (!best || d < best.d) best = { d, bearing: calculateBearing(path[i - 1], path[i]) };
+  }
+  return best ? best.bearing : null;
+};
+
+/** Degrees by which a crossing line misses being square to the centreline (0 = perfectly perpendicular). */
+export const crossingSkew = (edgeA: LatLng, edgeB: LatLng, centreBearing: number): number => {
+  const crossing = calculateBearing(edgeA, edgeB);
+  const angle = ((crossing - centreBearing) % 180 + 180) % 180;
+  return Math.abs(angle - 90);
+};
+
+export const getSkewColor = (skew: number) => {
+  if (skew < 10) return 'text-emerald-400';
+  if (skew <= 20) return 'text-amber-400';
+  return 'text-red-400';
+};
@@ -0,0 +1,49 @@
+export const getFormattedTimestamp = () => {
+  const now = new Date();
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const y = now.getFullYear();
+  const m = pad(now.getMonth() + 1);
+  const d = pad(now.getDate());
+  const h = pad(now.getHours());
+  const min = pad(now.getMinutes());
+  const s = pad(now.getSeconds());
+  return `${y}${m}${d}-${h}${min}${s}`;
+};
+
+/** Saves `content` to the downloads folder as `<prefix>-<timestamp>.<extension>`. */
+export const downloadFile = (content: string, mimeType: string, prefix: string, extension: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${prefix}-${getFormattedTimestamp()}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+/** Quotes a CSV cell when it holds a separator, quote or newline. */
+export const csvCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (rows: (string | number | null | undefined)[][]) => rows.map(r => r.map(csvCell).join(',')).join('\n');
+
+export const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** Reads a picked file as text. */
+export const readFileText = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result));
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+/** Local date and time as "YYYY-MM-DD HH:MM:SS", which spreadsheets read as a date. */
+export const spreadsheetDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
@@ -1,7 +1,28 @@
-import { GeoPoint, UnitSystem } from '../types.ts';
+import { GeoPoint, LatLng, UnitSystem } from '../types.ts';
 
-export const calculateDistance = (p1: GeoPoint, p2: GeoPoint): number => {
-  const R = 6371e3; // metres
+export const EARTH_RADIUS = 6371e3; // metres
+
+/** A point in metres east (x) and north (y) of an origin. */
+export type LocalPoint = { x: number; y: number };
+
+/** Local equirectangular projection about `origin`; plenty for the few hundred metres of a golf hole. */
+export const toLocalMetres = (p: LatLng, origin: LatLng): LocalPoint => ({
+  x: (p.lng - origin.lng) * Math.PI / 180 * EARTH_RADIUS * Math.cos(origin.lat * Math.PI / 180),
+  y: (p.lat - origin.lat) * Math.PI / 180 * EARTH_RADIUS
+});
+
+/** Unit suffixes for distances, heights and areas in the chosen system. */
+export const unitLabels = (units: UnitSystem) => units === 'Yards' ? { dist: 'yd', elev: 'ft', area: 'yd²' } : { dist: 'm', elev: 'm', area: 'm²' };
+
+/** Metric values in the chosen units as written to spreadsheets: one decimal, whole square units, blank when unknown. */
+export const unitConverters = (units: UnitSystem) => ({
+  dist: (m: number | null) => m === null ? '' : (m * (units === 'Yards' ? 1.09361 : 1)).toFixed(1),
+  elev: (m: number | null) => m === null ? '' : (m * (units === 'Yards' ? 3.28084 : 1)).toFixed(1),
+  area: (m: number | null) => m === null ? '' : Math.round(m * (units === 'Yards' ? 1.196 : 1))
+});
+
+export const calculateDistance = (p1: LatLng, p2: LatLng): number => {
+  const R = EARTH_RADIUS;
   const φ1 = p1.lat * Math.PI / 180;
   const φ2 = p2.lat * Math.PI / 180;
   const Δφ = (p2.lat - p1.lat) * Math.PI / 180;
@@ -16,22 +37,22 @@ export const calculateDistance = (p1: GeoPoint, p2: GeoPoint): number => {
 };
 
 export const toDisplayDistance = (meters: number, unit: UnitSystem): string => {
-  const value = unit === 'Meters' ? meters : meters * 1.09361;
+  const value = unit === 'Metres' ? meters : meters * 1.09361;
   return value.toFixed(1);
 };
 
 export const toDisplayElevation = (meters: number, unit: UnitSystem): string => {
   // Requirement: Elevation in Feet or Meters
-  const value = unit === 'Meters' ? meters : meters * 3.28084;
+  const value = unit === 'Metres' ? meters : meters * 3.28084;
   return value.toFixed(1);
 };
 
-export const calculatePolygonArea = (points: GeoPoint[]): number => {
+export const calculateArea = (points: LatLng[]): number => {
   if (points.length < 3) return 0;
   
   // Shoelace formula for area on planar projection (suitable for small golf greens)
   // Converting lat/lng to approximate meters relative to the first point
-  const R = 6371e3;
+  const R = EARTH_RADIUS;
   const lat0 = points[0].lat * Math.PI / 180;
   
   const coords = points.map(p => ({
@@ -48,6 +69,80 @@ export const calculatePolygonArea = (points: GeoPoint[]): number => {
   return Math.abs(area) / 2;
 };
 
+/** Perimeter of a walked outline and the part of it flagged as bunker. Closing leg included when `closed`. */
+export const calculatePerimeter = (points: GeoPoint[], closed: boolean): { perimeter: number; bunkerLength: number } => {
+  let perimeter = 0;
+  let bunkerLength = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    const d = calculateDistance(points[i], points[i + 1]);
+    perimeter += d;
+    if (points[i + 1].type === 'bunker') bunkerLength += d;
+  }
+  if (closed && points.length > 2) perimeter += calculateDistance(points[points.length - 1], points[0]);
+  return { perimeter, bunkerLength };
+};
+
+/** Whether `at` is back within `within` metres of the first point of an outline long enough to be closed there. */
+export const closesOutline = (points: GeoPoint[], at: LatLng, within: number): boolean =>
+  points.length > 5 && calculatePerimeter(points, false).perimeter > 5 && calculateDistance(at, points[0]) < within;
+
+/** Stretches of an outline walked as bunker, as used by `calculatePerimeter`: each run starts at the point before the first bunker point. */
+export const bunkerRuns = (points: GeoPoint[]): GeoPoint[][] => {
+  const runs: GeoPoint[][] = [];
+  let run: GeoPoint[] | null = null;
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].type !== 'bunker') { run = null; continue; }
+    if (!run) { run = [points[i - 1]]; runs.push(run); }
+    run.push(points[i]);
+  }
+  return runs;
+};
+
+/** Outline without the repeated closing point that KML and GeoJSON rings end with. */
+export const openRing = <T extends LatLng>(points: T[]): T[] => points.length > 3 && calculateDistance(points[0], points[points.length - 1]) < 0.01 ? points.slice(0, -1) : points;
+
+/** Initial bearing from p1 to p2 in degrees clockwise from north. */
+export const calculateBearing = (p1: LatLng, p2: LatLng): number => {
+  const φ1 = p1.lat * Math.PI / 180;
+  const φ2 = p2.lat * Math.PI / 180;
+  const Δλ = (p2.lng - p1.lng) * Math.PI / 180;
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+export const destinationPoint = (p: LatLng, bearing: number, distance: number): LatLng => {
+  const R = EARTH_RADIUS;
+  const δ = distance / R;
+  const θ = bearing * Math.PI / 180;
+  const φ1 = p.lat * Math.PI / 180;
+  const λ1 = p.lng * Math.PI / 180;
+  const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+  const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+  return { lat: φ2 * 180 / Math.PI, lng: λ2 * 180 / Math.PI };
+};
+
+export const pathLength = (path: LatLng[]): number => {
+  let total = 0;
+  for (let i = 1; i < path.length; i++) total += calculateDistance(path[i - 1], path[i]);
+  return total;
+};
+
+/** Point reached after travelling `distance` metres along a polyline, with the bearing of the leg it falls on. */
+export const pointAlongPath = (path: LatLng[], distance: number): { point: LatLng; bearing: number } | null => {
+  if (path.length < 2) return null;
+  let remaining = distance;
+  for (let i = 1; i < path.length; i++) {
+    const leg = calculateDistance(path[i - 1], path[i]);
+    const bearing = calculateBearing(path[i - 1], path[i]);
+    if (remaining <= leg || i === path.length - 1) {
+      return { point: destinationPoint(path[i - 1], bearing, Math.min(remaining, leg)), bearing };
+    }
+    remaining -= leg;
+  }
+  return null;
+};
+
 export const getAccuracyColor = (accuracy: number): string => {
   if (accuracy < 2) return 'rgba(34, 197, 94, 0.4)'; // Green
   if (accuracy <= 5) return 'rgba(234, 179, 8, 0.4)'; // Yellow
@@ -0,0 +1,134 @@
+import { GeoPoint, LegacyRecord, SavedRecord, ShotProfile } from '../types.ts';
+import { isObject, isRecord } from './backup.ts';
+import { generateId } from './courseUtils.ts';
+import { bunkerRuns, openRing, pathLength } from './geoUtils.ts';
+import { measuredPoints, recordMetrics, withMeasuredValues } from './recordMetrics.ts';
+import { RecordDraft, buildGreenRecord, buildTrackRecord } from './recordBuilders.ts';
+
+type Position = number[];
+
+// Record fields written to a feature's properties. Bookkeeping (filter settings, revision links and the stored
+// uncertainty, which goes out as metrics) stays in the app; it is worked out again when the record is read back.
+const EXPORTED_KEYS: (keyof SavedRecord)[] = ['id', 'type', 'date', 'measured', 'points', 'pivots', 'path', 'playingLengths', 'skew', 'dimensions', 'altitudeSource', 'source', 'reference', 'desk', 'courseId', 'holeNumber', 'teeId'];
+
+// Every SavedRecord field, as files written before the list above carried the whole record.
+const RECORD_KEYS: (keyof SavedRecord)[] = [...EXPORTED_KEYS, 'uncertainty', 'filter', 'revisionOf', 'revision'];
+
+const toPosition = (p: GeoPoint): Position => p.alt !== null ? [p.lng, p.lat, p.alt] : [p.lng, p.lat];
+
+const round = (v: number | null, dp = 2) => v === null ? null : Number(v.toFixed(dp));
+
+const recordFeature = (record: SavedRecord) => {
+  const m = recordMetrics(record);
+  const line = measuredPoints(record).map(toPosition);
+  const fields: Partial<SavedRecord> = {};
+  const copy = <K extends keyof SavedRecord>(key: K) => { if (record[key] !== undefined) fields[key] = record[key]; };
+  EXPORTED_KEYS.forEach(copy);
+  return {
+    type: 'Feature',
+    id: record.id,
+    geometry: record.type === 'Green' ? { type: 'Polygon', coordinates: [[...line, line[0]]] } : { type: 'LineString', coordinates: line },
+    properties: {
+      ...fields,
+      dateISO: new Date(record.date).toISOString(),
+      distanceMetres: round(m.distance),
+      legsMetres: m.legs.map(l => round(l)),
+      elevationChangeMetres: round(m.elevationChange),
+      walkedMetres: round(m.walked),
+      areaSqMetres: round(m.area, 1),
+      perimeterMetres: round(m.perimeter),
+      bunkerLengthMetres: round(m.bunkerLength),
+      bunkerPercent: m.bunkerPercent,
+      meanAccuracyMetres: round(m.meanAccuracy),
+      maxAccuracyMetres: round(m.maxAccuracy),
+      meanAltAccuracyMetres: round(m.meanAltAccuracy),
+      distanceUncertaintyMetres: round(m.distanceUncertainty),
+      elevationUncertaintyMetres: round(m.elevationUncertainty),
+      areaUncertaintySqMetres: round(m.areaUncertainty, 1),
+      perimeterUncertaintyMetres: round(m.perimeterUncertainty),
+      pointCount: m.pointCount
+    }
+  };
+};
+
+/**
+ * GeoJSON FeatureCollection of the history. Tracks and widths are LineStrings, greens Polygons, each carrying the record's fields
+ * and its metrics in properties. Each bunker run on a green is an extra LineString tagged `surface: bunker` and linked by `recordId`.
+ */
+export const historyToGeoJSON = (history: SavedRecord[]): string => {
+  const features = history.filter(r => r.points.length >= 2).flatMap(record => [
+    recordFeature(record),
+    ...(record.type === 'Green' ? bunkerRuns(record.points).map(run => ({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: run.map(toPosition) },
+      properties: { surface: 'bunker', recordId: record.id, lengthMetres: round(pathLength(run)) }
+    })) : [])
+  ]);
+  return JSON.stringify({ type: 'FeatureCollection', name: 'Golf Toolkit Export', features }, null, 2);
+};
+
+const fromPosition = (pos: Position, timestamp: number): GeoPoint => ({ lat: pos[1], lng: pos[0], alt: pos.length > 2 ? pos[2] : null, accuracy: 0, altAccuracy: null, timestamp });
+
+type Parts = { lines: Position[][]; rings: Position[][] };
+
+const isPosition = (p: unknown): p is Position => Array.isArray(p) && p.length >= 2 && p.every(n => typeof n === 'number' && isFinite(n));
+const listOf = (v: unknown): unknown[] => Array.isArray(v) ? v : [];
+const positions = (v: unknown): Position[] => listOf(v).filter(isPosition);
+
+/** Lines and outer rings of a foreign geometry, for reference records. Anything that is not a list of positions is skipped. */
+const geometryParts = (geometry: unknown): Parts => {
+  if (!isObject(geometry)) return { lines: [], rings: [] };
+  const coordinates = geometry.coordinates;
+  switch (geometry.type) {
+    case 'LineString': return { lines: [positions(coordinates)], rings: [] };
+    case 'MultiLineString': return { lines: listOf(coordinates).map(positions), rings: [] };
+    case 'Polygon': return { lines: [], rings: [positions(listOf(coordinates)[0])] };
+    case 'MultiPolygon': return { lines: [], rings: listOf(coordinates).map(poly => positions(listOf(poly)[0])) };
+    case 'GeometryCollection': return listOf(geometry.geometries).map(geometryParts).reduce<Parts>((a, b) => ({ lines: [...a.lines, ...b.lines], rings: [...a.rings, ...b.rings] }), { lines: [], rings: [] });
+    default: return { lines: [], rings: [] };
+  }
+};
+
+/** The record fields of an app feature's properties, leaving out the metrics added for GIS use. */
+const ownRecord = (props: LegacyRecord): LegacyRecord => {
+  const record: LegacyRecord = { id: props.id, type: props.type, date: props.date, points: props.points };
+  const copy = <K extends keyof LegacyRecord>(key: K) => { if (props[key] !== undefined && props[key] !== null) record[key] = props[key]; };
+  RECORD_KEYS.forEach(copy);
+  return record;
+};
+
+/**
+ * Records from a GeoJSON file. Features written by this app restore their record from properties, named after the file; bunker features are
+ * skipped as they are derived from the green's points. Other lines and polygons come in as reference tracks and greens.
+ */
+export const parseGeoJSON = (text: string, fileName: string, profiles?: ShotProfile[]): SavedRecord[] => {
+  let data: unknown;
+  try { data = JSON.parse(text); } catch (e) { throw new Error(`${fileName} is not a GeoJSON file`); }
+  const features = !isObject(data) ? null : data.type === 'FeatureCollection' ? data.features : data.type === 'Feature' ? [data] : null;
+  if (!Array.isArray(features)) throw new Error(`${fileName} is not a GeoJSON file`);
+  const records: SavedRecord[] = [];
+
+  features.forEach((feature: unknown) => {
+    if (!isObject(feature)) return;
+    const props: Record<string, unknown> = isObject(feature.properties) ? feature.properties : {};
+    if (props.surface === 'bunker' && props.recordId) return;
+    if (isRecord(props)) {
+      // Features written by older versions carry display strings in place of the measured values.
+      records.push({ ...withMeasuredValues(ownRecord(props)), source: `GeoJSON · ${fileName}` });
+      return;
+    }
+    const date = Date.now();
+    const { lines, rings } = geometryParts(feature.geometry);
+    const drafts: RecordDraft[] = [];
+    rings.forEach(ring => {
+      const pts = openRing(ring.map(pos => fromPosition(pos, date)));
+      if (pts.length >= 3) drafts.push(buildGreenRecord(pts));
+    });
+    lines.forEach(line => {
+      const pts = line.map(pos => fromPosition(pos, date));
+      if (pts.length >= 2) drafts.push(buildTrackRecord(pts[0], pts.slice(1, -1), pts[pts.length - 1], [], profiles));
+    });
+    drafts.forEach(draft => records.push({ ...draft, id: generateId(), date, source: `GeoJSON reference · ${typeof props.name === 'string' && props.name ? props.name : fileName}`, reference: true }));
+  });
+  return records;
+};
@@ -0,0 +1,125 @@
+import { GeoPoint, SavedRecord, ShotProfile, UnitSystem } from '../types.ts';
+import { generateId } from './courseUtils.ts';
+import { escapeXml } from './fileUtils.ts';
+import { calculateDistance } from './geoUtils.ts';
+import { trackPath } from './landingZones.ts';
+import { RecordDraft, buildGreenRecord, buildTrackRecord, buildWidthRecord } from './recordBuilders.ts';
+import { primaryValue, secondaryValue } from './recordDisplay.ts';
+
+// Namespace for the per-point accuracy and record links this app adds to standard GPX 1.1.
+const EXT_NS = 'urn:golf-rating-toolkit:gpx:1';
+
+const pointBody = (p: GeoPoint, extra = '', extraExtensions = '') => {
+  const ext = [
+    `<sgt:accuracy>${p.accuracy.toFixed(2)}</sgt:accuracy>`,
+    p.altAccuracy !== null ? `<sgt:altAccuracy>${p.altAccuracy.toFixed(2)}</sgt:altAccuracy>` : '',
+    p.precision !== undefined ? `<sgt:precision>${p.precision.toFixed(2)}</sgt:precision><sgt:samples>${p.samples}</sgt:samples>` : '',
+    p.placed ? '<sgt:placed>1</sgt:placed>' : '',
+    extraExtensions
+  ].join('');
+  return `${p.alt !== null ? `<ele>${p.alt.toFixed(2)}</ele>` : ''}${p.timestamp > 0 ? `<time>${new Date(p.timestamp).toISOString()}</time>` : ''}${extra}<extensions>${ext}</extensions>`;
+};
+
+const waypoint = (p: GeoPoint, name: string, type: string, record: SavedRecord, units: UnitSystem) =>
+  `<wpt lat="${p.lat}" lon="${p.lng}">${pointBody(p, `<name>${name}</name><desc>${escapeXml(`${record.type}: ${primaryValue(record, units)}`)}</desc><type>${type}</type>`, `<sgt:record>${record.id}</sgt:record>`)}</wpt>`;
+
+const header = (record: SavedRecord, units: UnitSystem) =>
+  `<name>${escapeXml(`${record.type}: ${primaryValue(record, units)}`)}</name><desc>${escapeXml(`Date: ${new Date(record.date).toLocaleString()} | ${secondaryValue(record, units)}`)}</desc><type>${record.type}</type><extensions><sgt:record>${record.id}</sgt:record></extensions>`;
+
+/**
+ * GPX 1.1 document for the history. Tracks become <trk> (the walked breadcrumb path when there is one) with their start,
+ * pivots and finish as waypoints; greens become closed routes whose points carry their green/bunker type; widths become two-point routes.
+ */
+export const historyToGPX = (history: SavedRecord[], units: UnitSystem): string => {
+  const wpts: string[] = [];
+  const rtes: string[] = [];
+  const trks: string[] = [];
+  history.forEach(record => {
+    if (record.type === 'Track' && record.points.length >= 2) {
+      const start = record.points[0];
+      const end = record.points[record.points.length - 1];
+      wpts.push(waypoint(start, 'Start', 'Start', record, units));
+      (record.pivots || []).forEach((p, i) => wpts.push(waypoint(p, `Pivot ${i + 1}`, 'Pivot', record, units)));
+      wpts.push(waypoint(end, 'Finish', 'Finish', record, units));
+      const pts = record.path && record.path.length > 1 ? record.path : trackPath(record) as GeoPoint[];
+      trks.push(`<trk>${header(record, units)}<trkseg>${pts.map(p => `<trkpt lat="${p.lat}" lon="${p.lng}">${pointBody(p)}</trkpt>`).join('')}</trkseg></trk>`);
+    } else if (record.points.length >= 2) {
+      const pts = record.type === 'Green' ? [...record.points, record.points[0]] : record.points;
+      rtes.push(`<rte>${header(record, units)}${pts.map(p => `<rtept lat="${p.lat}" lon="${p.lng}">${pointBody(p, record.type === 'Green' ? `<type>${p.type || 'green'}</type>` : '')}</rtept>`).join('')}</rte>`);
+    }
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?><gpx version="1.1" creator="Scottish Golf Course Rating Toolkit" xmlns="http://www.topografix.com/GPX/1/1" xmlns:sgt="${EXT_NS}"><metadata><name>Golf Toolkit Export</name><time>${new Date().toISOString()}</time></metadata>${wpts.join('')}${rtes.join('')}${trks.join('')}</gpx>`;
+};
+
+const children = (el: Element, name: string) => Array.from(el.children).filter(c => c.localName === name);
+const childText = (el: Element, name: string) => children(el, name)[0]?.textContent?.trim() || '';
+
+/** Value of one of this app's point extensions, looked up by local name so files re-saved by other tools still match. */
+const extension = (el: Element, name: string): string | null => {
+  const ext = children(el, 'extensions')[0];
+  if (!ext) return null;
+  const found = Array.from(ext.getElementsByTagName('*')).find(e => e.localName === name);
+  return found?.textContent?.trim() || null;
+};
+
+const numberOr = <T>(text: string | null, fallback: T): number | T => {
+  const n = text ? parseFloat(text) : NaN;
+  return isFinite(n) ? n : fallback;
+};
+
+/** A <wpt>, <trkpt> or <rtept> as a GeoPoint. Handheld units rarely report accuracy, so it reads 0 (unknown) when absent. */
+const readPoint = (el: Element): GeoPoint => {
+  const point: GeoPoint = {
+    lat: parseFloat(el.getAttribute('lat') || '0'),
+    lng: parseFloat(el.getAttribute('lon') || '0'),
+    alt: numberOr(childText(el, 'ele'), null),
+    accuracy: numberOr(extension(el, 'accuracy'), 0),
+    altAccuracy: numberOr(extension(el, 'altAccuracy'), null),
+    timestamp: numberOr(String(Date.parse(childText(el, 'time'))), 0)
+  };
+  const type = childText(el, 'type');
+  if (type === 'green' || type === 'bunker') point.type = type;
+  const precision = extension(el, 'precision');
+  if (precision) { point.precision = parseFloat(precision); point.samples = numberOr(extension(el, 'samples'), undefined); }
+  if (extension(el, 'placed') === '1') point.placed = true;
+  return point;
+};
+
+/**
+ * Records from a GPX file, whether written by this app or by a handheld GPS. Tracks keep every point as their walked path;
+ * start, pivot and finish waypoints linked to a track are restored, otherwise its first and last points are the ends.
+ * Closed routes become greens and two-point routes widths.
+ */
+export const parseGPX = (text: string, fileName: string, profiles?: ShotProfile[]): SavedRecord[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'gpx') throw new Error(`${fileName} is not a GPX file`);
+  const root = doc.documentElement;
+  const waypoints = children(root, 'wpt').map(el => ({ point: readPoint(el), type: childText(el, 'type'), record: extension(el, 'record') }));
+  const drafts: RecordDraft[] = [];
+
+  children(root, 'trk').forEach(trk => {
+    const pts = children(trk, 'trkseg').flatMap(seg => children(seg, 'trkpt').map(readPoint));
+    if (pts.length < 2) return;
+    const id = extension(trk, 'record');
+    const linked = id ? waypoints.filter(w => w.record === id) : [];
+    const start = linked.find(w => w.type === 'Start')?.point || pts[0];
+    const end = linked.find(w => w.type === 'Finish')?.point || pts[pts.length - 1];
+    const pivots = linked.filter(w => w.type === 'Pivot').map(w => w.point);
+    drafts.push(buildTrackRecord(start, pivots, end, pts, profiles));
+  });
+
+  children(root, 'rte').forEach(rte => {
+    let pts = children(rte, 'rtept').map(readPoint);
+    const type = childText(rte, 'type');
+    if (pts.length > 2 && calculateDistance(pts[0], pts[pts.length - 1]) < 0.01) pts = pts.slice(0, -1);
+    if (type === 'Width' || pts.length === 2) drafts.push(buildWidthRecord(pts[0], pts[pts.length - 1]));
+    else if (pts.length >= 3) drafts.push(buildGreenRecord(pts));
+  });
+
+  return drafts.map(draft => ({
+    ...draft,
+    id: generateId(),
+    date: draft.points[0].timestamp || Date.now(),
+    source: `GPX · ${fileName}`
+  }));
+};
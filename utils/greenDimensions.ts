@@ -0,0 +1,141 @@
+import { GreenDimensions, GreenSegment, LatLng, SavedRecord } from '../types.ts';
+import { EARTH_RADIUS as R, calculateBearing, toLocalMetres } from './geoUtils.ts';
+import { trackPath } from './landingZones.ts';
+
+const STATIONS = 40;
+// A step in width of this ratio between two parts of the green, or a waist this much narrower than both sides, marks it as segmented.
+const SEGMENT_WIDTH_RATIO = 1.5;
+const WAIST_RATIO = 0.65;
+// Splits too close to the front or back edge are ignored.
+const MIN_SEGMENT_FRACTION = 0.2;
+
+interface Frame {
+  origin: LatLng;
+  bearing: number;
+}
+
+interface Station {
+  v: number;
+  width: number;
+  from: number;
+  to: number;
+}
+
+const rad = (d: number) => d * Math.PI / 180;
+
+/** Rotates into metres where +v runs along the line of play and +u to its right. */
+const toFrame = (p: LatLng, f: Frame) => {
+  const { x, y } = toLocalMetres(p, f.origin);
+  const θ = rad(f.bearing);
+  return { u: x * Math.cos(θ) - y * Math.sin(θ), v: x * Math.sin(θ) + y * Math.cos(θ) };
+};
+
+const fromFrame = (u: number, v: number, f: Frame): LatLng => {
+  const θ = rad(f.bearing);
+  const x = u * Math.cos(θ) + v * Math.sin(θ);
+  const y = -u * Math.sin(θ) + v * Math.cos(θ);
+  return {
+    lat: f.origin.lat + (y / R) * 180 / Math.PI,
+    lng: f.origin.lng + (x / (R * Math.cos(rad(f.origin.lat)))) * 180 / Math.PI
+  };
+};
+
+const centroid = (points: LatLng[]): LatLng => ({
+  lat: points.reduce((s, p) => s + p.lat, 0) / points.length,
+  lng: points.reduce((s, p) => s + p.lng, 0) / points.length
+});
+
+/** Width of the polygon across the line of play at station v, summing every crossing interval. */
+const chordAt = (poly: { u: number; v: number }[], v: number): Station => {
+  const xs: number[] = [];
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i];
+    const b = poly[(i + 1) % poly.length];
+    if ((a.v <= v && b.v > v) || (b.v <= v && a.v > v)) xs.push(a.u + (v - a.v) / (b.v - a.v) * (b.u - a.u));
+  }
+  xs.sort((a, b) => a - b);
+  let width = 0;
+  for (let i = 0; i + 1 < xs.length; i += 2) width += xs[i + 1] - xs[i];
+  return { v, width, from: xs[0] ?? 0, to: xs[xs.length - 1] ?? 0 };
+};
+
+const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / Math.max(1, values.length);
+
+/** Station index to split the green at, or null when it reads as one regular shape. */
+const findSplit = (stations: Station[]): number | null => {
+  const minIndex = Math.ceil(stations.length * MIN_SEGMENT_FRACTION);
+  const maxIndex = Math.floor(stations.length * (1 - MIN_SEGMENT_FRACTION));
+  let best: { index: number; cost: number } | null = null;
+  for (let k = minIndex; k <= maxIndex; k++) {
+    const front = stations.slice(0, k).map(s => s.width);
+    const back = stations.slice(k).map(s => s.width);
+    const m1 = mean(front), m2 = mean(back);
+    const cost = front.reduce((s, w) => s + (w - m1) ** 2, 0) + back.reduce((s, w) => s + (w - m2) ** 2, 0);
+    if (!best || cost < best.cost) best = { index: k, cost };
+  }
+  if (best) {
+    const m1 = mean(stations.slice(0, best.index).map(s => s.width));
+    const m2 = mean(stations.slice(best.index).map(s => s.width));
+    if (Math.max(m1, m2) / Math.max(0.01, Math.min(m1, m2)) >= SEGMENT_WIDTH_RATIO) return best.index;
+  }
+  let waist: Station | null = null;
+  let waistIndex = -1;
+  for (let k = minIndex; k <= maxIndex; k++) {
+    if (!waist || stations[k].width < waist.width) { waist = stations[k]; waistIndex = k; }
+  }
+  if (waist) {
+    const frontMax = Math.max(...stations.slice(0, waistIndex).map(s => s.width));
+    const backMax = Math.max(...stations.slice(waistIndex + 1).map(s => s.width));
+    if (waist.width < WAIST_RATIO * Math.min(frontMax, backMax)) return waistIndex;
+  }
+  return null;
+};
+
+const measureSegment = (stations: Station[], start: number, end: number, frame: Frame): GreenSegment => {
+  const widest = stations.reduce((a, b) => (b.width > a.width ? b : a));
+  const midU = (widest.from + widest.to) / 2;
+  return {
+    length: end - start,
+    width: widest.width,
+    lengthAxis: [fromFrame(midU, start, frame), fromFrame(midU, end, frame)],
+    widthAxis: [fromFrame(widest.from, widest.v, frame), fromFrame(widest.to, widest.v, frame)]
+  };
+};
+
+/**
+ * Length along the line of play, width across it and the effective diameter (L + W) / 2.
+ * Greens whose width steps or pinches sharply (L-shaped, two-tier) are split into two segments,
+ * each measured on its own, and the effective diameter is the mean of the segments' (L + W) / 2.
+ */
+export const computeGreenDimensions = (points: LatLng[], approachBearing: number, approachSource: GreenDimensions['approachSource']): GreenDimensions | null => {
+  if (points.length < 3) return null;
+  const frame: Frame = { origin: centroid(points), bearing: approachBearing };
+  const poly = points.map(p => toFrame(p, frame));
+  const vMin = Math.min(...poly.map(p => p.v));
+  const vMax = Math.max(...poly.map(p => p.v));
+  if (vMax - vMin <= 0) return null;
+  const step = (vMax - vMin) / STATIONS;
+  const stations = Array.from({ length: STATIONS }, (_, i) => chordAt(poly, vMin + (i + 0.5) * step));
+
+  const split = findSplit(stations);
+  const segments = split === null
+    ? [measureSegment(stations, vMin, vMax, frame)]
+    : [measureSegment(stations.slice(0, split), vMin, vMin + split * step, frame), measureSegment(stations.slice(split), vMin + split * step, vMax, frame)];
+
+  const overall = measureSegment(stations, vMin, vMax, frame);
+  return {
+    length: overall.length,
+    width: split === null ? overall.width : mean(segments.map(s => s.width)),
+    effectiveDiameter: mean(segments.map(s => (s.length + s.width) / 2)),
+    approachBearing,
+    approachSource,
+    segments
+  };
+};
+
+/** Line of play into the green: the bearing of a track's final leg. */
+export const approachBearingFromTrack = (record: SavedRecord): number | null => {
+  const path = trackPath(record);
+  if (path.length < 2) return null;
+  return calculateBearing(path[path.length - 2], path[path.length - 1]);
+};
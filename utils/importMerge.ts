@@ -0,0 +1,29 @@
+import { SavedRecord } from '../types.ts';
+import { calculateDistance } from './geoUtils.ts';
+
+// Points closer than this are taken to be the same fix written out and read back (export rounding, altitude loss).
+const SAME_POINT_TOLERANCE = 0.5;
+
+export interface ImportPreview {
+  fileName: string;
+  fresh: SavedRecord[];
+  duplicates: SavedRecord[];
+}
+
+/** Same kind of record over the same points. Compares geometry only, since ids and dates do not survive a round trip through KML. */
+export const isSameRecord = (a: SavedRecord, b: SavedRecord): boolean => {
+  if (a.type !== b.type || a.points.length !== b.points.length || (a.pivots?.length ?? 0) !== (b.pivots?.length ?? 0)) return false;
+  const close = (p: SavedRecord['points'], q: SavedRecord['points']) => p.every((pt, i) => calculateDistance(pt, q[i]) < SAME_POINT_TOLERANCE);
+  return close(a.points, b.points) && close(a.pivots || [], b.pivots || []);
+};
+
+/** Splits imported records into those new to the history and those already in it (or repeated earlier in the same file). */
+export const previewImport = (fileName: string, imported: SavedRecord[], history: SavedRecord[]): ImportPreview => {
+  const fresh: SavedRecord[] = [];
+  const duplicates: SavedRecord[] = [];
+  imported.forEach(record => {
+    if ([...history, ...fresh].some(existing => isSameRecord(existing, record))) duplicates.push(record);
+    else fresh.push(record);
+  });
+  return { fileName, fresh, duplicates };
+};
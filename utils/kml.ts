@@ -0,0 +1,187 @@
+import { Course, GeoPoint, SavedRecord, ShotProfile, UnitSystem } from '../types.ts';
+import { describeRecordLocation, generateId } from './courseUtils.ts';
+import { escapeXml } from './fileUtils.ts';
+import { bunkerRuns, openRing, pathLength, toDisplayDistance, toDisplayElevation } from './geoUtils.ts';
+import { describeFilter } from './positionFilter.ts';
+import { describeAltitudeSource } from './altimetry.ts';
+import { formatUncertainty } from './uncertainty.ts';
+import { measuredPoints, recordMetrics } from './recordMetrics.ts';
+import { RecordDraft, buildGreenRecord, buildTrackRecord, buildWidthRecord } from './recordBuilders.ts';
+import { primaryValue } from './recordDisplay.ts';
+
+// Stands in for a missing value in the space-separated per-point lists.
+const NULL_TOKEN = '-';
+
+const STYLES = `<Style id="trackStyle"><LineStyle><color>ffff0000</color><width>4</width></LineStyle></Style><Style id="greenStyle"><PolyStyle><color>4d00ff00</color><fill>1</fill><outline>1</outline></PolyStyle><LineStyle><color>ff00ff00</color><width>2</width></LineStyle></Style><Style id="widthStyle"><LineStyle><color>fff65c8b</color><width>4</width></LineStyle></Style><Style id="bunkerStyle"><LineStyle><color>ff0b9ef5</color><width>7</width></LineStyle></Style><Style id="pathStyle"><LineStyle><color>73f0e8e2</color><width>2</width></LineStyle></Style>`;
+
+const coordinates = (points: GeoPoint[]) => points.map(p => `${p.lng},${p.lat},${p.alt || 0}`).join(' ');
+
+const data = (name: string, value: string | number | null | undefined) => value === null || value === undefined ? '' : `<Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`;
+
+/** Per-point fields as space-separated lists in the same order as the placemark's coordinates. */
+const pointData = (points: GeoPoint[]) => {
+  const list = (name: string, value: (p: GeoPoint) => string | number | null | undefined) =>
+    data(name, points.map(p => { const v = value(p); return v === null || v === undefined ? NULL_TOKEN : v; }).join(' '));
+  return list('pointType', p => p.type)
+    + list('altitude', p => p.alt?.toFixed(2))
+    + list('accuracy', p => p.accuracy.toFixed(2))
+    + list('altAccuracy', p => p.altAccuracy?.toFixed(2))
+    + list('timestamp', p => p.timestamp)
+    + (points.some(p => p.precision !== undefined) ? list('precision', p => p.precision?.toFixed(2)) + list('samples', p => p.samples) : '')
+    + (points.some(p => p.placed) ? list('placed', p => p.placed ? 1 : 0) : '');
+};
+
+/** HTML table of everything measured on the record, shown in Google Earth's balloon. */
+const description = (record: SavedRecord, units: UnitSystem, courses: Course[]) => {
+  const m = recordMetrics(record);
+  const d = (v: number | null) => v === null ? null : `${toDisplayDistance(v, units)} ${units === 'Yards' ? 'yd' : 'm'}`;
+  // Appends the value's uncertainty, when known, e.g. "245.3 yd ±1.8yd".
+  const pm = (text: string | null, u: number | null, kind: 'distance' | 'elevation' | 'area') => text === null || u === null ? text : `${text} ${formatUncertainty(u, kind, units)}`;
+  const rows: [string, string | null][] = [
+    ['Date', new Date(record.date).toLocaleString()],
+    ['Hole', describeRecordLocation(record, courses)],
+    [record.type === 'Width' ? 'Width' : 'Distance', pm(d(m.distance), m.distanceUncertainty, 'distance')],
+    ['Legs', m.legs.length > 1 ? m.legs.map((l, i) => pm(toDisplayDistance(l, units), m.legUncertainties[i] ?? null, 'distance')).join(' / ') : null],
+    ['Elevation change', m.elevationChange === null ? null : pm(`${m.elevationChange >= 0 ? '+' : ''}${toDisplayElevation(m.elevationChange, units)} ${units === 'Yards' ? 'ft' : 'm'}`, m.elevationUncertainty, 'elevation')],
+    ['Measured', record.desk ? 'At the desk, from imagery' : null],
+    ['Altitude source', record.type === 'Track' && !record.source && !record.desk ? describeAltitudeSource(record.altitudeSource) : null],
+    ['Walked', d(m.walked)],
+    ['Skew', record.skew !== undefined ? `${record.skew.toFixed(0)}°` : null],
+    ['Area', m.area === null ? null : pm(`${Math.round(m.area * (units === 'Yards' ? 1.196 : 1))} ${units === 'Yards' ? 'yd²' : 'm²'}`, m.areaUncertainty, 'area')],
+    ['Perimeter', pm(d(m.perimeter), m.perimeterUncertainty, 'distance')],
+    ['Bunker', m.bunkerPercent === null ? null : `${m.bunkerPercent}% (${d(m.bunkerLength)})`],
+    ['Mean accuracy', m.meanAccuracy === null ? null : `±${m.meanAccuracy.toFixed(1)} m`],
+    ['Worst accuracy', m.maxAccuracy === null ? null : `±${m.maxAccuracy.toFixed(1)} m`],
+    ['Points', String(m.pointCount)],
+    ['GPS filter', record.source || record.desk ? null : describeFilter(record.filter)],
+    ['Source', record.source || null]
+  ];
+  const body = rows.filter(([, v]) => v !== null).map(([k, v]) => `<tr><td><b>${k}</b></td><td>${escapeXml(v!)}</td></tr>`).join('');
+  return `<description><![CDATA[<table>${body}</table>]]></description>`;
+};
+
+/** Record-level attributes plus the metrics, so GIS packages show them in the attribute table. */
+const recordData = (record: SavedRecord) => {
+  const m = recordMetrics(record);
+  const r = (v: number | null) => v === null ? null : v.toFixed(2);
+  return data('recordId', record.id) + data('date', record.date) + data('courseId', record.courseId) + data('holeNumber', record.holeNumber) + data('teeId', record.teeId)
+    + data('skew', record.skew) + data('altitudeSource', record.altitudeSource) + data('revisionOf', record.revisionOf) + data('revision', record.revision) + data('desk', record.desk ? 'true' : null) + data('distanceMetres', r(m.distance)) + data('elevationChangeMetres', r(m.elevationChange)) + data('areaSqMetres', r(m.area))
+    + data('perimeterMetres', r(m.perimeter)) + data('bunkerPercent', m.bunkerPercent) + data('meanAccuracyMetres', r(m.meanAccuracy))
+    + data('distanceUncertaintyMetres', r(m.distanceUncertainty)) + data('elevationUncertaintyMetres', r(m.elevationUncertainty))
+    + data('areaUncertaintySqMetres', r(m.areaUncertainty)) + data('perimeterUncertaintyMetres', r(m.perimeterUncertainty));
+};
+
+/**
+ * KML document for the history. Each record is a placemark with a metrics balloon and its per-point data in ExtendedData.
+ * A green's bunker stretches and a track's walked path are extra placemarks styled as in the app and linked back by recordId.
+ */
+export const historyToKML = (history: SavedRecord[], units: UnitSystem, courses: Course[]): string => {
+  const placemarks = history.filter(r => r.points.length >= 2).map(item => {
+    const name = escapeXml(`${item.type}: ${primaryValue(item, units)}`);
+    const points = measuredPoints(item);
+    const extended = `<ExtendedData>${recordData(item)}${pointData(points)}</ExtendedData>`;
+    const head = `<Placemark id="rec-${item.id}"><name>${name}</name>${description(item, units, courses)}<TimeStamp><when>${new Date(item.date).toISOString()}</when></TimeStamp>`;
+    if (item.type === 'Green') {
+      const bunkers = bunkerRuns(item.points).map((run, i) => `<Placemark><name>Bunker ${i + 1}: ${toDisplayDistance(pathLength(run), units)}${units === 'Yards' ? 'yd' : 'm'}</name><styleUrl>#bunkerStyle</styleUrl><ExtendedData>${data('recordId', item.id)}${data('role', 'bunker')}</ExtendedData><LineString><altitudeMode>clampToGround</altitudeMode><coordinates>${coordinates(run)}</coordinates></LineString></Placemark>`).join('');
+      return `${head}<styleUrl>#greenStyle</styleUrl>${extended}<Polygon><altitudeMode>clampToGround</altitudeMode><outerBoundaryIs><LinearRing><coordinates>${coordinates([...points, points[0]])}</coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark>${bunkers}`;
+    }
+    const line = `${head}<styleUrl>#${item.type === 'Track' ? 'trackStyle' : 'widthStyle'}</styleUrl>${extended}<LineString><altitudeMode>clampToGround</altitudeMode><coordinates>${coordinates(points)}</coordinates></LineString></Placemark>`;
+    const walked = item.type === 'Track' && item.path && item.path.length > 1
+      ? `<Placemark><name>Walked: ${toDisplayDistance(pathLength(item.path), units)}${units === 'Yards' ? 'yd' : 'm'}</name><styleUrl>#pathStyle</styleUrl><ExtendedData>${data('recordId', item.id)}${data('role', 'path')}${pointData(item.path)}</ExtendedData><LineString><altitudeMode>clampToGround</altitudeMode><coordinates>${coordinates(item.path)}</coordinates></LineString></Placemark>`
+      : '';
+    return line + walked;
+  }).join('');
+  return `<?xml version="1.0" encoding="UTF-8"?><kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Golf Toolkit Export</name>${STYLES}${placemarks}</Document></kml>`;
+};
+
+const descendants = (el: Element, name: string) => Array.from(el.getElementsByTagName('*')).filter(c => c.localName === name);
+const childText = (el: Element, name: string) => Array.from(el.children).find(c => c.localName === name)?.textContent?.trim() || '';
+
+const extendedData = (placemark: Element): Record<string, string> => Object.fromEntries(
+  descendants(placemark, 'Data').map(d => [d.getAttribute('name') || '', descendants(d, 'value')[0]?.textContent?.trim() || ''])
+);
+
+/** A KML <coordinates> list ("lng,lat[,alt]" tuples) as points. Plain KML carries no accuracy or time, so those read as unknown. */
+const readCoordinates = (text: string, timestamp: number): GeoPoint[] => text.trim().split(/\s+/).filter(Boolean).map(tuple => {
+  const [lng, lat, alt] = tuple.split(',').map(parseFloat);
+  return { lat, lng, alt: isFinite(alt) ? alt : null, accuracy: 0, altAccuracy: null, timestamp };
+}).filter(p => isFinite(p.lat) && isFinite(p.lng));
+
+/** Puts back the per-point lists written by `historyToKML`, when there is one value per point. */
+const restorePointData = (points: GeoPoint[], extended: Record<string, string>): GeoPoint[] => {
+  const list = (name: string) => {
+    const values = extended[name]?.split(/\s+/);
+    return values && values.length === points.length ? values.map(v => v === NULL_TOKEN ? null : v) : null;
+  };
+  const [type, altitude, accuracy, altAccuracy, timestamp, precision, samples, placed] = ['pointType', 'altitude', 'accuracy', 'altAccuracy', 'timestamp', 'precision', 'samples', 'placed'].map(list);
+  return points.map((p, i) => {
+    const point: GeoPoint = { ...p };
+    if (type?.[i] === 'green' || type?.[i] === 'bunker') point.type = type[i] as GeoPoint['type'];
+    if (altitude) point.alt = altitude[i] === null ? null : parseFloat(altitude[i]!);
+    if (accuracy?.[i]) point.accuracy = parseFloat(accuracy[i]!);
+    if (altAccuracy) point.altAccuracy = altAccuracy[i] === null ? null : parseFloat(altAccuracy[i]!);
+    if (timestamp?.[i]) point.timestamp = parseInt(timestamp[i]!, 10);
+    if (precision?.[i]) { point.precision = parseFloat(precision[i]!); point.samples = samples?.[i] ? parseInt(samples[i]!, 10) : undefined; }
+    if (placed?.[i] === '1') point.placed = true;
+    return point;
+  });
+};
+
+/** The app's own placemarks are named "Track: …", "Green: …" or "Width: …"; anything else is a generic reference drawing. */
+const APP_PLACEMARK = /^(Track|Green|Width): /;
+
+/**
+ * Records from a KML file. The app's own Track, Green and Width placemarks are rebuilt with their pivots, altitude, filing
+ * and per-point data; their bunker and walked-path placemarks are folded back in rather than imported separately.
+ * Placemarks from elsewhere (e.g. drawn in Google Earth) come in as reference records: polygons as greens, lines as
+ * tracks whose inner vertices are the pivots.
+ */
+export const parseKML = (text: string, fileName: string, profiles?: ShotProfile[]): SavedRecord[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'kml') throw new Error(`${fileName} is not a KML file`);
+  const placemarks = descendants(doc.documentElement, 'Placemark').map(el => ({ el, name: childText(el, 'name'), extended: extendedData(el) }));
+  const walkedPaths = new Map(placemarks.filter(p => p.extended.role === 'path').map(p => [
+    p.extended.recordId,
+    restorePointData(readCoordinates(descendants(p.el, 'coordinates')[0]?.textContent || '', 0), p.extended)
+  ]));
+  const records: SavedRecord[] = [];
+
+  placemarks.filter(p => !p.extended.role).forEach(({ el, name, extended }) => {
+    const own = name.match(APP_PLACEMARK)?.[1];
+    // Only machine-readable dates are trusted. Files from older versions carry the date solely as locale text in the
+    // description, which reads differently on every device, so their records take the import time and their points none.
+    const stamped = extended.date ? parseInt(extended.date, 10) : Date.parse(descendants(el, 'when')[0]?.textContent?.trim() || '');
+    const known = isFinite(stamped) ? stamped : null;
+    const date = known ?? Date.now();
+    const drafts: RecordDraft[] = [];
+
+    descendants(el, 'Polygon').forEach(polygon => {
+      const ring = descendants(polygon, 'outerBoundaryIs').flatMap(b => descendants(b, 'coordinates'))[0];
+      const points = ring ? restorePointData(openRing(readCoordinates(ring.textContent || '', known ?? 0)), extended) : [];
+      if (points.length >= 3) drafts.push(buildGreenRecord(points));
+    });
+    descendants(el, 'LineString').forEach(line => {
+      const points = restorePointData(readCoordinates(descendants(line, 'coordinates')[0]?.textContent || '', known ?? 0), extended);
+      if (points.length < 2) return;
+      const end = points[points.length - 1];
+      if (own === 'Width') drafts.push(buildWidthRecord(points[0], end, extended.skew ? parseFloat(extended.skew) : undefined));
+      else drafts.push(buildTrackRecord(points[0], points.slice(1, -1), end, walkedPaths.get(extended.recordId) || [], profiles));
+    });
+
+    drafts.forEach(draft => records.push({
+      ...draft,
+      id: own && extended.recordId ? extended.recordId : generateId(),
+      date,
+      source: own ? `KML · ${fileName}` : `KML reference · ${name || fileName}`,
+      reference: own ? undefined : true,
+      courseId: extended.courseId || undefined,
+      holeNumber: extended.holeNumber ? parseInt(extended.holeNumber, 10) : undefined,
+      teeId: extended.teeId || undefined,
+      altitudeSource: (extended.altitudeSource as SavedRecord['altitudeSource']) || undefined,
+      revisionOf: extended.revisionOf || undefined,
+      revision: extended.revision ? parseInt(extended.revision, 10) : undefined,
+      desk: extended.desk === 'true' || undefined
+    }));
+  });
+  return records;
+};
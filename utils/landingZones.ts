@@ -0,0 +1,46 @@
+import { LandingZoneSettings, LatLng, SavedRecord, ShotProfile } from '../types.ts';
+import { destinationPoint, pathLength, pointAlongPath } from './geoUtils.ts';
+import { DEFAULT_SHOT_PROFILES, YARD, landingZoneDistances } from './ratingCalculator.ts';
+
+export interface LandingZone {
+  profile: ShotProfile;
+  shot: number;
+  distance: number;
+  point: LatLng;
+  bearing: number;
+}
+
+export const DEFAULT_LANDING_ZONE_SETTINGS: LandingZoneSettings = {
+  profiles: DEFAULT_SHOT_PROFILES,
+  bandWidth: 40
+};
+
+export const PROFILE_COLOURS: Record<string, string> = {
+  'Male-Scratch': '#3b82f6',
+  'Male-Bogey': '#f59e0b',
+  'Female-Scratch': '#a855f7',
+  'Female-Bogey': '#ec4899'
+};
+
+export const profileColour = (p: Pick<ShotProfile, 'gender' | 'player'>) => PROFILE_COLOURS[`${p.gender}-${p.player}`] || '#ffffff';
+
+/** Tee, pivots and end point of a track record as one polyline. */
+export const trackPath = (record: SavedRecord): LatLng[] => {
+  if (record.points.length < 2) return record.points;
+  return [record.points[0], ...(record.pivots || []), record.points[record.points.length - 1]];
+};
+
+/** Where each profile's full shots land along the measured line, in playing order. */
+export const computeLandingZones = (path: LatLng[], profiles: ShotProfile[]): LandingZone[] => {
+  const length = pathLength(path);
+  return profiles.flatMap(profile => landingZoneDistances(length, profile).map((distance, i) => {
+    const located = pointAlongPath(path, distance);
+    return located ? { profile, shot: i + 1, distance, point: located.point, bearing: located.bearing } : null;
+  }).filter((z): z is LandingZone => z !== null));
+};
+
+/** End points of the band drawn square to the line of play across a landing zone. */
+export const zoneBand = (zone: LandingZone, bandWidth: number): [LatLng, LatLng] => {
+  const half = (bandWidth * YARD) / 2;
+  return [destinationPoint(zone.point, zone.bearing - 90, half), destinationPoint(zone.point, zone.bearing + 90, half)];
+};
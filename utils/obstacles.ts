@@ -0,0 +1,182 @@
+import { Gender, ObstacleEntry, ObstacleFactor, ObstacleValues, ObstacleWorksheet, PlayerType, SavedRecord } from '../types.ts';
+import { calculateArea, calculatePerimeter } from './geoUtils.ts';
+import { generateId } from './courseUtils.ts';
+import { FOOT, YARD } from './ratingCalculator.ts';
+
+export interface ObstacleAdjustment {
+  id: string;
+  label: string;
+  value: number;
+}
+
+export interface ObstacleFactorDefinition {
+  factor: ObstacleFactor;
+  label: string;
+  adjustments: ObstacleAdjustment[];
+}
+
+export const OBSTACLE_FACTORS: ObstacleFactorDefinition[] = [
+  { factor: 'topography', label: 'Topography', adjustments: [
+    { id: 'stance', label: 'Mostly uneven stances', value: 1 },
+    { id: 'layup', label: 'Forced lay-up', value: 1 }
+  ] },
+  { factor: 'fairway', label: 'Fairway', adjustments: [
+    { id: 'visibility', label: 'Landing zone not visible', value: 1 },
+    { id: 'layup', label: 'Forced lay-up', value: 1 },
+    { id: 'wide', label: 'Unusually wide', value: -1 }
+  ] },
+  { factor: 'greenTarget', label: 'Green Target', adjustments: [
+    { id: 'visibility', label: 'Green not visible', value: 1 },
+    { id: 'obstructed', label: 'Obstructed approach', value: 1 },
+    { id: 'firm', label: 'Firm green', value: 1 },
+    { id: 'tiers', label: 'Tiered target', value: 1 }
+  ] },
+  { factor: 'recoveryRough', label: 'Recovery & Rough', adjustments: [
+    { id: 'unusual', label: 'Unusual rough', value: 1 },
+    { id: 'carry', label: 'Carry over rough', value: 1 },
+    { id: 'squeeze', label: 'Squeeze', value: 1 }
+  ] },
+  { factor: 'bunkers', label: 'Bunkers', adjustments: [
+    { id: 'depth', label: 'Extreme depth / lip', value: 2 },
+    { id: 'carry', label: 'Carry', value: 1 },
+    { id: 'squeeze', label: 'Squeeze', value: 1 }
+  ] },
+  { factor: 'crossing', label: 'Crossing Hazards', adjustments: [
+    { id: 'carry', label: 'Carry from tee', value: 1 },
+    { id: 'layup', label: 'Forced lay-up', value: 1 }
+  ] },
+  { factor: 'outOfBounds', label: 'OB / Extreme Rough', adjustments: [
+    { id: 'percentage', label: 'High percentage in play', value: 1 },
+    { id: 'squeeze', label: 'Squeeze', value: 1 },
+    { id: 'bounce', label: 'Bounce towards', value: 1 }
+  ] },
+  { factor: 'water', label: 'Water Hazards', adjustments: [
+    { id: 'percentage', label: 'High percentage in play', value: 1 },
+    { id: 'squeeze', label: 'Squeeze', value: 1 },
+    { id: 'carry', label: 'Carry', value: 1 }
+  ] },
+  { factor: 'trees', label: 'Trees', adjustments: [
+    { id: 'chute', label: 'Chute', value: 1 },
+    { id: 'overhang', label: 'Overhanging', value: 1 }
+  ] },
+  { factor: 'greenSurface', label: 'Green Surface', adjustments: [
+    { id: 'contour', label: 'Severe contour', value: 1 },
+    { id: 'tiers', label: 'Tiers', value: 1 },
+    { id: 'fast', label: 'Fast (Stimp 11+)', value: 1 }
+  ] }
+];
+
+const MAX_VALUE = 10;
+
+const clampValue = (v: number) => Math.min(MAX_VALUE, Math.max(0, v));
+
+const emptyValues = (): ObstacleValues => OBSTACLE_FACTORS.reduce((acc, def) => {
+  acc[def.factor] = { base: 0, adjustments: [] };
+  return acc;
+}, {} as ObstacleValues);
+
+export const createWorksheet = (courseId: string, holeNumber: number, teeId: string, gender: Gender): ObstacleWorksheet => ({
+  id: generateId(),
+  courseId,
+  holeNumber,
+  teeId,
+  gender,
+  updatedAt: Date.now(),
+  scratch: emptyValues(),
+  bogey: emptyValues()
+});
+
+export const findWorksheet = (worksheets: ObstacleWorksheet[], courseId: string, holeNumber: number, teeId: string, gender: Gender) =>
+  worksheets.find(w => w.courseId === courseId && w.holeNumber === holeNumber && w.teeId === teeId && w.gender === gender) || null;
+
+/** Table value plus the adjustments ticked, limited to the 0-10 rating scale. */
+export const obstacleValue = (factor: ObstacleFactor, entry: ObstacleEntry): number => {
+  const def = OBSTACLE_FACTORS.find(d => d.factor === factor);
+  const adjustment = (def?.adjustments || []).filter(a => entry.adjustments.includes(a.id)).reduce((s, a) => s + a.value, 0);
+  return clampValue(entry.base + adjustment);
+};
+
+export const obstacleValues = (values: ObstacleValues): Record<ObstacleFactor, number> => OBSTACLE_FACTORS.reduce((acc, def) => {
+  acc[def.factor] = obstacleValue(def.factor, values[def.factor]);
+  return acc;
+}, {} as Record<ObstacleFactor, number>);
+
+/**
+ * Psychological value, driven by how many obstacles on the hole are rated 5 or more and how far above 4 they are.
+ * Each such obstacle contributes (value - 4); every two points of that total add one to the psychological value.
+ */
+export const psychologicalValue = (values: ObstacleValues): number => {
+  const pressure = Object.values(obstacleValues(values)).filter(v => v >= 5).reduce((s, v) => s + (v - 4), 0);
+  return clampValue(Math.ceil(pressure / 2));
+};
+
+/** Suggested table values worked out from measurements already held for the hole. */
+export interface ObstaclePrefill {
+  values: Partial<Record<PlayerType, Partial<Record<ObstacleFactor, number>>>>;
+  sources: Partial<Record<ObstacleFactor, string>>;
+}
+
+// Fraction of the green's perimeter guarded by sand, mapped to the bunker table value.
+const bunkerBase = (fraction: number) => {
+  if (fraction <= 0) return 0;
+  if (fraction <= 0.25) return 2;
+  if (fraction <= 0.5) return 4;
+  if (fraction <= 0.75) return 6;
+  return 8;
+};
+
+// Smaller greens are harder targets; the bogey golfer, hitting longer approaches, finds them harder still.
+const greenTargetBase = (diameterYards: number, player: PlayerType) => {
+  const bands = [40, 35, 30, 25, 20, 15];
+  const index = bands.findIndex(b => diameterYards >= b);
+  const value = index === -1 ? bands.length + 1 : index + 1;
+  return clampValue(player === 'Bogey' ? value + 1 : value);
+};
+
+const topographyBase = (elevationFeet: number) => {
+  const rise = Math.abs(elevationFeet);
+  if (rise < 10) return 1;
+  if (rise < 20) return 2;
+  if (rise < 40) return 3;
+  return 4;
+};
+
+export const prefillFromRecords = (records: SavedRecord[]): ObstaclePrefill => {
+  const prefill: ObstaclePrefill = { values: { Scratch: {}, Bogey: {} }, sources: {} };
+  const setBoth = (factor: ObstacleFactor, scratch: number, bogey: number, source: string) => {
+    prefill.values.Scratch![factor] = scratch;
+    prefill.values.Bogey![factor] = bogey;
+    prefill.sources[factor] = source;
+  };
+
+  const green = records.find(r => r.type === 'Green' && r.points.length > 2);
+  if (green) {
+    const { perimeter, bunkerLength } = calculatePerimeter(green.points, true);
+    const fraction = perimeter > 0 ? bunkerLength / perimeter : 0;
+    setBoth('bunkers', bunkerBase(fraction), bunkerBase(fraction), `Green Mapper: ${Math.round(fraction * 100)}% bunkered`);
+    const diameter = green.dimensions?.effectiveDiameter ?? 2 * Math.sqrt(calculateArea(green.points) / Math.PI);
+    const diameterYards = diameter / YARD;
+    setBoth('greenTarget', greenTargetBase(diameterYards, 'Scratch'), greenTargetBase(diameterYards, 'Bogey'), `Green size: ${diameterYards.toFixed(0)}yd diameter`);
+  }
+
+  const track = records.find(r => r.type === 'Track' && r.points.length >= 2);
+  const start = track?.points[0];
+  const end = track?.points[track.points.length - 1];
+  if (start && end && start.alt !== null && end.alt !== null) {
+    const elevationFeet = (end.alt - start.alt) / FOOT;
+    setBoth('topography', topographyBase(elevationFeet), topographyBase(elevationFeet), `Track: ${(elevationFeet >= 0 ? '+' : '') + elevationFeet.toFixed(0)}ft to green`);
+  }
+  return prefill;
+};
+
+/** Writes prefilled table values into a worksheet, leaving anything the rater has already set alone. */
+export const applyPrefill = (worksheet: ObstacleWorksheet, prefill: ObstaclePrefill): ObstacleWorksheet => {
+  const fill = (values: ObstacleValues, suggested: Partial<Record<ObstacleFactor, number>> = {}): ObstacleValues => {
+    const next = { ...values };
+    (Object.keys(suggested) as ObstacleFactor[]).forEach(f => {
+      if (next[f].base === 0) next[f] = { ...next[f], base: suggested[f]! };
+    });
+    return next;
+  };
+  return { ...worksheet, scratch: fill(worksheet.scratch, prefill.values.Scratch), bogey: fill(worksheet.bogey, prefill.values.Bogey) };
+};
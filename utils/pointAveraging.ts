@@ -0,0 +1,46 @@
+import { AveragingSettings, GeoPoint } from '../types.ts';
+import { toLocalMetres } from './geoUtils.ts';
+
+export const DEFAULT_AVERAGING_SETTINGS: AveragingSettings = {
+  duration: 10,
+  targetError: 0.5
+};
+
+// A standard error from fewer fixes than this is not trusted to end the capture early.
+export const MIN_SAMPLES = 3;
+
+/**
+ * Mean position of a run of fixes and its standard error in metres: the scatter of the fixes about their mean
+ * divided by √n. With a single fix the reported accuracy stands in for the scatter.
+ */
+export const averageFixes = (fixes: GeoPoint[]): GeoPoint | null => {
+  if (fixes.length === 0) return null;
+  const n = fixes.length;
+  const lat = fixes.reduce((s, f) => s + f.lat, 0) / n;
+  const lng = fixes.reduce((s, f) => s + f.lng, 0) / n;
+  const withAlt = fixes.filter(f => f.alt !== null);
+  const alt = withAlt.length ? withAlt.reduce((s, f) => s + f.alt!, 0) / withAlt.length : null;
+  const sq = fixes.reduce((s, f) => {
+    const { x, y } = toLocalMetres(f, { lat, lng });
+    return s + x * x + y * y;
+  }, 0);
+  const spread = n > 1 ? Math.sqrt(sq / (n - 1)) : fixes[0].accuracy;
+  const altAccuracies = fixes.filter(f => f.altAccuracy !== null).map(f => f.altAccuracy!);
+  return {
+    lat,
+    lng,
+    alt,
+    accuracy: fixes.reduce((s, f) => s + f.accuracy, 0) / n,
+    altAccuracy: altAccuracies.length ? altAccuracies.reduce((s, a) => s + a, 0) / altAccuracies.length : null,
+    timestamp: fixes[n - 1].timestamp,
+    precision: spread / Math.sqrt(n),
+    samples: n,
+    altSource: fixes[n - 1].altSource
+  };
+};
+
+/** True once the capture has run its full time, or has enough fixes to trust a standard error under target. */
+export const isAveragingComplete = (average: GeoPoint | null, elapsedSeconds: number, settings: AveragingSettings): boolean => {
+  if (elapsedSeconds >= settings.duration) return true;
+  return !!average && (average.samples ?? 0) >= MIN_SAMPLES && (average.precision ?? Infinity) <= settings.targetError;
+};
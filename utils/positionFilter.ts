@@ -0,0 +1,131 @@
+import { FilterSettings, GeoPoint } from '../types.ts';
+import { calculateDistance } from './geoUtils.ts';
+
+export const DEFAULT_FILTER_SETTINGS: FilterSettings = {
+  enabled: true,
+  maxAccuracy: 15,
+  maxSpeed: 4,
+  smoothing: 'kalman',
+  windowSize: 5,
+  processNoise: 1.5,
+  sharedVariance: 0.75
+};
+
+// After this many rejected fixes in a row the filter assumes the walker really has moved and starts again from the next fix.
+const MAX_CONSECUTIVE_REJECTS = 5;
+
+export interface PositionFilter {
+  /** Filtered fix, or null when the raw fix is rejected. */
+  push: (fix: GeoPoint) => GeoPoint | null;
+  reset: () => void;
+}
+
+interface KalmanState {
+  lat: number;
+  lng: number;
+  alt: number | null;
+  variance: number;
+  altVariance: number | null;
+  timestamp: number;
+}
+
+/**
+ * Constant-position Kalman filter: uncertainty grows with elapsed time at `processNoise` m/s,
+ * and each fix pulls the estimate towards it in proportion to how accurate it claims to be.
+ */
+const kalmanStep = (state: KalmanState | null, fix: GeoPoint, processNoise: number): KalmanState => {
+  if (!state) {
+    return { lat: fix.lat, lng: fix.lng, alt: fix.alt, variance: fix.accuracy ** 2, altVariance: fix.altAccuracy !== null ? fix.altAccuracy ** 2 : null, timestamp: fix.timestamp };
+  }
+  const dt = Math.max(0, (fix.timestamp - state.timestamp) / 1000);
+  const variance = state.variance + dt * processNoise ** 2;
+  const k = variance / (variance + fix.accuracy ** 2);
+  let alt = state.alt;
+  let altVariance = state.altVariance;
+  if (fix.alt !== null && fix.altAccuracy !== null) {
+    if (alt === null || altVariance === null) {
+      alt = fix.alt;
+      altVariance = fix.altAccuracy ** 2;
+    } else {
+      const predicted = altVariance + dt * processNoise ** 2;
+      const ka = predicted / (predicted + fix.altAccuracy ** 2);
+      alt = alt + ka * (fix.alt - alt);
+      altVariance = (1 - ka) * predicted;
+    }
+  }
+  return {
+    lat: state.lat + k * (fix.lat - state.lat),
+    lng: state.lng + k * (fix.lng - state.lng),
+    alt,
+    variance: (1 - k) * variance,
+    altVariance,
+    timestamp: fix.timestamp
+  };
+};
+
+/** Inverse-variance weighted mean of the last few accepted fixes. */
+const windowMean = (fixes: GeoPoint[]): GeoPoint => {
+  const weights = fixes.map(f => 1 / Math.max(0.25, f.accuracy ** 2));
+  const total = weights.reduce((s, w) => s + w, 0);
+  const withAlt = fixes.filter(f => f.alt !== null);
+  const latest = fixes[fixes.length - 1];
+  return {
+    ...latest,
+    lat: fixes.reduce((s, f, i) => s + f.lat * weights[i], 0) / total,
+    lng: fixes.reduce((s, f, i) => s + f.lng * weights[i], 0) / total,
+    alt: withAlt.length ? withAlt.reduce((s, f) => s + f.alt!, 0) / withAlt.length : null,
+    accuracy: Math.sqrt(1 / total)
+  };
+};
+
+export const createPositionFilter = (settings: FilterSettings): PositionFilter => {
+  let lastAccepted: GeoPoint | null = null;
+  let rejects = 0;
+  let kalman: KalmanState | null = null;
+  let recent: GeoPoint[] = [];
+
+  const reset = () => {
+    lastAccepted = null;
+    rejects = 0;
+    kalman = null;
+    recent = [];
+  };
+
+  const push = (fix: GeoPoint): GeoPoint | null => {
+    if (!settings.enabled) return fix;
+    if (fix.accuracy > settings.maxAccuracy) return null;
+    if (lastAccepted) {
+      const dt = (fix.timestamp - lastAccepted.timestamp) / 1000;
+      // Allow for both fixes' own error before judging the implied walking speed.
+      const moved = Math.max(0, calculateDistance(lastAccepted, fix) - fix.accuracy - lastAccepted.accuracy);
+      if (dt > 0 && moved / dt > settings.maxSpeed) {
+        rejects += 1;
+        if (rejects < MAX_CONSECUTIVE_REJECTS) return null;
+        reset();
+      }
+    }
+    rejects = 0;
+    lastAccepted = fix;
+
+    if (settings.smoothing === 'kalman') {
+      kalman = kalmanStep(kalman, fix, settings.processNoise);
+      return { ...fix, lat: kalman.lat, lng: kalman.lng, alt: kalman.alt, accuracy: Math.sqrt(kalman.variance), altAccuracy: kalman.altVariance !== null ? Math.sqrt(kalman.altVariance) : fix.altAccuracy };
+    }
+    if (settings.smoothing === 'window') {
+      recent = [...recent, fix].slice(-Math.max(1, settings.windowSize));
+      return windowMean(recent);
+    }
+    return fix;
+  };
+
+  return { push, reset };
+};
+
+/** Short label for a record's filter settings, e.g. "Kalman · ≤15m · ≤4m/s". */
+export const describeFilter = (settings: FilterSettings | undefined): string => {
+  if (!settings) return 'Unfiltered (legacy)';
+  const shared = settings.sharedVariance !== undefined ? ` · ${Math.round(settings.sharedVariance * 100)}% shared error` : '';
+  if (!settings.enabled) return `Raw fixes${shared}`;
+  const smoothing = settings.smoothing === 'kalman' ? 'Kalman' : settings.smoothing === 'window' ? `Window ${settings.windowSize}` : 'No smoothing';
+  return `${smoothing} · ≤${settings.maxAccuracy}m · ≤${settings.maxSpeed}m/s${shared}`;
+};
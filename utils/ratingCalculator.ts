@@ -0,0 +1,57 @@
+import { Gender, PlayerType, PlayingLength, ShotProfile } from '../types.ts';
+
+export const YARD = 0.9144;
+export const FOOT = 0.3048;
+
+export const DEFAULT_SHOT_PROFILES: ShotProfile[] = [
+  { gender: 'Male', player: 'Scratch', teeShot: 250, secondShot: 220 },
+  { gender: 'Male', player: 'Bogey', teeShot: 200, secondShot: 170 },
+  { gender: 'Female', player: 'Scratch', teeShot: 210, secondShot: 190 },
+  { gender: 'Female', player: 'Bogey', teeShot: 150, secondShot: 120 }
+];
+
+// Course Rating System: elevation changes under 10ft are ignored, otherwise 1yd is added per 1ft uphill (subtracted downhill).
+const MIN_ELEVATION_CHANGE = 10 * FOOT;
+const YARDS_PER_FOOT = 1;
+
+export const elevationAdjustment = (elevationChange: number): number => {
+  if (Math.abs(elevationChange) < MIN_ELEVATION_CHANGE) return 0;
+  return (elevationChange / FOOT) * YARDS_PER_FOOT * YARD;
+};
+
+/**
+ * Distances from the tee (metres along the measured line) at which each full shot lands short of the green.
+ * The final shot that reaches the green is not a landing zone.
+ */
+export const landingZoneDistances = (length: number, profile: ShotProfile): number[] => {
+  const zones: number[] = [];
+  let travelled = profile.teeShot * YARD;
+  while (travelled < length) {
+    zones.push(travelled);
+    travelled += profile.secondShot * YARD;
+  }
+  return zones;
+};
+
+/** All distances in metres. Elevation change is green minus tee, so uphill holes are positive. */
+export const calculatePlayingLength = (measured: number, elevationChange: number, profile: ShotProfile): PlayingLength => {
+  const adjustment = elevationAdjustment(elevationChange);
+  const effectiveLength = Math.max(0, measured + adjustment);
+  const zones = landingZoneDistances(measured, profile);
+  const reach = profile.teeShot * YARD;
+  const shotsToGreen = effectiveLength <= reach ? 1 : 1 + Math.ceil((effectiveLength - reach) / (profile.secondShot * YARD));
+  return {
+    gender: profile.gender,
+    player: profile.player,
+    measured,
+    elevationAdjustment: adjustment,
+    effectiveLength,
+    shotsToGreen,
+    landingZones: zones
+  };
+};
+
+export const calculatePlayingLengths = (measured: number, elevationChange: number, profiles: ShotProfile[] = DEFAULT_SHOT_PROFILES): PlayingLength[] =>
+  profiles.map(p => calculatePlayingLength(measured, elevationChange, p));
+
+export const playerLabel = (p: { gender: Gender; player: PlayerType }) => `${p.player === 'Scratch' ? 'SCR' : 'BOG'} ${p.gender === 'Male' ? 'M' : 'F'}`;
@@ -0,0 +1,149 @@
+import { Course, Gender, ObstacleFactor, ObstacleValues, ObstacleWorksheet, SavedRecord, ShotProfile, UnitSystem } from '../types.ts';
+import { findTee, recordsForHole } from './courseUtils.ts';
+import { pathLength } from './geoUtils.ts';
+import { trackPath } from './landingZones.ts';
+import { findWorksheet, obstacleValues, psychologicalValue } from './obstacles.ts';
+import { DEFAULT_SHOT_PROFILES, YARD, calculatePlayingLength } from './ratingCalculator.ts';
+import { toCSV } from './fileUtils.ts';
+
+type WeightedFactor = ObstacleFactor | 'psychological';
+
+/** Weight given to each obstacle factor when the hole values are combined into the obstacle stroke value. */
+export const OBSTACLE_WEIGHTS: Record<'Scratch' | 'Bogey', Record<WeightedFactor, number>> = {
+  Scratch: { topography: 0.11, fairway: 0.12, greenTarget: 0.10, recoveryRough: 0.12, bunkers: 0.14, crossing: 0.05, outOfBounds: 0.10, water: 0.14, trees: 0.09, greenSurface: 0.10, psychological: 0.04 },
+  Bogey: { topography: 0.12, fairway: 0.11, greenTarget: 0.10, recoveryRough: 0.14, bunkers: 0.13, crossing: 0.06, outOfBounds: 0.12, water: 0.18, trees: 0.14, greenSurface: 0.10, psychological: 0.04 }
+};
+
+/** Course Rating System constants: yards per stroke and base value for the length rating, obstacle stroke factor and slope multiplier. */
+export const RATING_CONSTANTS: Record<Gender, { scratchDivisor: number; scratchBase: number; bogeyDivisor: number; bogeyBase: number; scratchObstacle: number; bogeyObstacle: number; slopeFactor: number }> = {
+  Male: { scratchDivisor: 220, scratchBase: 40.9, bogeyDivisor: 160, bogeyBase: 50.7, scratchObstacle: 0.11, bogeyObstacle: 0.26, slopeFactor: 5.381 },
+  Female: { scratchDivisor: 180, scratchBase: 40.1, bogeyDivisor: 120, bogeyBase: 51.3, scratchObstacle: 0.12, bogeyObstacle: 0.20, slopeFactor: 4.240 }
+};
+
+const MIN_SLOPE = 55;
+const MAX_SLOPE = 155;
+
+export interface HoleRatingRow {
+  holeNumber: number;
+  par: number | null;
+  measured: number | null;
+  elevation: number | null;
+  effectiveScratch: number | null;
+  effectiveBogey: number | null;
+  scratchObstacle: number | null;
+  bogeyObstacle: number | null;
+}
+
+export interface RatingSummary {
+  holes: number;
+  measured: number;
+  effectiveScratch: number;
+  effectiveBogey: number;
+  scratchObstacleStrokes: number;
+  bogeyObstacleStrokes: number;
+  courseRating: number;
+  bogeyRating: number;
+  slope: number;
+}
+
+export interface RatingReport {
+  courseName: string;
+  teeName: string;
+  gender: Gender;
+  rows: HoleRatingRow[];
+  front: RatingSummary;
+  back: RatingSummary;
+  total: RatingSummary;
+  missingLengths: number[];
+  missingObstacles: number[];
+}
+
+/** Weighted sum of one golfer's obstacle values on a hole, psychological included. */
+const weightedObstacles = (values: ObstacleValues, player: 'Scratch' | 'Bogey'): number => {
+  const weights = OBSTACLE_WEIGHTS[player];
+  const rated = obstacleValues(values);
+  const sum = (Object.keys(rated) as ObstacleFactor[]).reduce((s, f) => s + rated[f] * weights[f], 0);
+  return sum + psychologicalValue(values) * weights.psychological;
+};
+
+const mean = (values: number[]) => values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+
+/**
+ * Length rating plus obstacle stroke value for a run of holes. Nine-hole ratings use half the 18-hole base values,
+ * and their slope doubles the bogey-scratch gap so nines read on the same scale as the full course.
+ */
+const summarise = (rows: HoleRatingRow[], gender: Gender, scale: number): RatingSummary => {
+  const c = RATING_CONSTANTS[gender];
+  const effectiveScratch = rows.reduce((s, r) => s + (r.effectiveScratch ?? 0), 0);
+  const effectiveBogey = rows.reduce((s, r) => s + (r.effectiveBogey ?? 0), 0);
+  const scratchObstacleStrokes = c.scratchObstacle * mean(rows.filter(r => r.scratchObstacle !== null).map(r => r.scratchObstacle!)) * scale;
+  const bogeyObstacleStrokes = c.bogeyObstacle * mean(rows.filter(r => r.bogeyObstacle !== null).map(r => r.bogeyObstacle!)) * scale;
+  const courseRating = (effectiveScratch / YARD) / c.scratchDivisor + c.scratchBase * scale + scratchObstacleStrokes;
+  const bogeyRating = (effectiveBogey / YARD) / c.bogeyDivisor + c.bogeyBase * scale + bogeyObstacleStrokes;
+  const slope = Math.round(Math.min(MAX_SLOPE, Math.max(MIN_SLOPE, c.slopeFactor * (bogeyRating - courseRating) / scale)));
+  return {
+    holes: rows.length,
+    measured: rows.filter(r => r.measured !== null).length,
+    effectiveScratch,
+    effectiveBogey,
+    scratchObstacleStrokes,
+    bogeyObstacleStrokes,
+    courseRating,
+    bogeyRating,
+    slope
+  };
+};
+
+/** Rolls the latest track and the obstacle worksheet of every hole up into Course Rating and Slope for one tee and gender. */
+export const buildRatingReport = (course: Course, teeId: string, gender: Gender, history: SavedRecord[], worksheets: ObstacleWorksheet[], profiles: ShotProfile[] = DEFAULT_SHOT_PROFILES): RatingReport => {
+  const scratchProfile = profiles.find(p => p.gender === gender && p.player === 'Scratch')!;
+  const bogeyProfile = profiles.find(p => p.gender === gender && p.player === 'Bogey')!;
+  const rows = course.holes.map((hole): HoleRatingRow => {
+    const track = recordsForHole(history, course.id, hole.number, teeId).find(r => r.type === 'Track' && r.points.length >= 2);
+    const sheet = findWorksheet(worksheets, course.id, hole.number, teeId, gender);
+    const row: HoleRatingRow = { holeNumber: hole.number, par: hole.par, measured: null, elevation: null, effectiveScratch: null, effectiveBogey: null, scratchObstacle: null, bogeyObstacle: null };
+    if (track) {
+      const start = track.points[0];
+      const end = track.points[track.points.length - 1];
+      row.measured = pathLength(trackPath(track));
+      row.elevation = start.alt !== null && end.alt !== null ? end.alt - start.alt : 0;
+      row.effectiveScratch = calculatePlayingLength(row.measured, row.elevation, scratchProfile).effectiveLength;
+      row.effectiveBogey = calculatePlayingLength(row.measured, row.elevation, bogeyProfile).effectiveLength;
+    }
+    if (sheet) {
+      row.scratchObstacle = weightedObstacles(sheet.scratch, 'Scratch');
+      row.bogeyObstacle = weightedObstacles(sheet.bogey, 'Bogey');
+    }
+    return row;
+  });
+  const half = Math.ceil(rows.length / 2);
+  return {
+    courseName: course.name,
+    teeName: findTee(course, teeId)?.name || '',
+    gender,
+    rows,
+    front: summarise(rows.slice(0, half), gender, 0.5),
+    back: summarise(rows.slice(half), gender, 0.5),
+    total: summarise(rows, gender, 1),
+    missingLengths: rows.filter(r => r.measured === null).map(r => r.holeNumber),
+    missingObstacles: rows.filter(r => r.scratchObstacle === null).map(r => r.holeNumber)
+  };
+};
+
+export const ratingReportToCSV = (report: RatingReport, units: UnitSystem): string => {
+  const dist = (m: number | null) => m === null ? '' : (m * (units === 'Metres' ? 1 : 1 / YARD)).toFixed(1);
+  const unit = units === 'Metres' ? 'm' : 'yd';
+  const num = (v: number | null, dp: number) => v === null ? '' : v.toFixed(dp);
+  const summaryRow = (label: string, s: RatingSummary) => [label, '', '', dist(s.effectiveScratch), dist(s.effectiveBogey), num(s.scratchObstacleStrokes, 2), num(s.bogeyObstacleStrokes, 2), s.courseRating.toFixed(1), s.bogeyRating.toFixed(1), s.slope];
+  return toCSV([
+    ['Course', report.courseName],
+    ['Tee', report.teeName],
+    ['Gender', report.gender],
+    [],
+    ['Hole', 'Par', `Measured (${unit})`, `Effective Scratch (${unit})`, `Effective Bogey (${unit})`, 'Scratch Obstacles', 'Bogey Obstacles', 'Course Rating', 'Bogey Rating', 'Slope'],
+    ...report.rows.map(r => [r.holeNumber, r.par, dist(r.measured), dist(r.effectiveScratch), dist(r.effectiveBogey), num(r.scratchObstacle, 2), num(r.bogeyObstacle, 2)]),
+    summaryRow('Front 9', report.front),
+    summaryRow('Back 9', report.back),
+    summaryRow('Total', report.total)
+  ]);
+};
@@ -0,0 +1,32 @@
+import { GeoPoint, SavedRecord, ShotProfile } from '../types.ts';
+import { calculatePlayingLengths } from './ratingCalculator.ts';
+import { measureRecord } from './recordMetrics.ts';
+
+export type RecordDraft = Omit<SavedRecord, 'id' | 'date'>;
+
+/** Track record measured start → pivots → end, with the same values as one walked in the app. */
+export const buildTrackRecord = (start: GeoPoint, pivots: GeoPoint[], end: GeoPoint, path: GeoPoint[], profiles?: ShotProfile[]): RecordDraft => {
+  const measured = measureRecord({ type: 'Track', points: [start, end], pivots });
+  return {
+    type: 'Track',
+    measured,
+    points: [start, end],
+    pivots,
+    path: path.length > 1 ? path : undefined,
+    playingLengths: calculatePlayingLengths(measured.distance!, measured.elevation ?? 0, profiles)
+  };
+};
+
+/** Green record from an outline whose points carry their own green/bunker type. */
+export const buildGreenRecord = (points: GeoPoint[]): RecordDraft => ({
+  type: 'Green',
+  measured: measureRecord({ type: 'Green', points }),
+  points
+});
+
+export const buildWidthRecord = (a: GeoPoint, b: GeoPoint, skew?: number): RecordDraft => ({
+  type: 'Width',
+  measured: measureRecord({ type: 'Width', points: [a, b] }),
+  points: [a, b],
+  skew
+});
@@ -0,0 +1,23 @@
+import { SavedRecord, UnitSystem } from '../types.ts';
+import { toDisplayDistance, toDisplayElevation } from './geoUtils.ts';
+import { bunkerPercent } from './recordMetrics.ts';
+
+export const formatDistance = (m: number, units: UnitSystem) => `${toDisplayDistance(m, units)}${units === 'Yards' ? 'yd' : 'm'}`;
+
+const formatElevation = (m: number, units: UnitSystem) => `${m >= 0 ? '+' : ''}${toDisplayElevation(m, units)}${units === 'Yards' ? 'ft' : 'm'}`;
+
+export const formatArea = (m2: number, units: UnitSystem) => `${Math.round(m2 * (units === 'Yards' ? 1.196 : 1))}${units === 'Yards' ? 'yd²' : 'm²'}`;
+
+/** The value a record is listed by: "412.3yd" for a track or width, "540yd²" for a green. */
+export const primaryValue = (record: SavedRecord, units: UnitSystem): string => {
+  const { distance, area } = record.measured;
+  if (record.type === 'Green') return area !== undefined ? formatArea(area, units) : '--';
+  return distance !== undefined ? formatDistance(distance, units) : '--';
+};
+
+/** The line under it: "Elev: +12.1ft", "Bunker: 35%" or "Skew: 4°". */
+export const secondaryValue = (record: SavedRecord, units: UnitSystem): string => {
+  if (record.type === 'Track') return `Elev: ${record.measured.elevation !== undefined ? formatElevation(record.measured.elevation, units) : '--'}`;
+  if (record.type === 'Green') return `Bunker: ${bunkerPercent(record.measured) ?? '--'}%`;
+  return `Skew: ${record.skew !== undefined ? record.skew.toFixed(0) + '°' : '--'}`;
+};
@@ -0,0 +1,68 @@
+import { GeoPoint, LatLng, SavedRecord, ShotProfile } from '../types.ts';
+import { generateId } from './courseUtils.ts';
+import { computeGreenDimensions } from './greenDimensions.ts';
+import { buildGreenRecord, buildTrackRecord } from './recordBuilders.ts';
+import { computeUncertainty } from './uncertainty.ts';
+
+/** A tapped vertex, or a tapped segment: segment i runs from vertex i to vertex i + 1 (wrapping round on a green). */
+export type EditSelection = { kind: 'vertex' | 'segment'; index: number };
+
+export const isEditable = (record: SavedRecord) => record.type === 'Green' || record.type === 'Track';
+
+/** The points an edit works on: a green's outline, or a track's start, pivots and end. */
+export const editVertices = (record: SavedRecord): GeoPoint[] =>
+  record.type === 'Track' ? [record.points[0], ...(record.pivots || []), record.points[record.points.length - 1]] : record.points;
+
+/**
+ * A point placed by hand has no GPS accuracy of its own: 0 leaves it out of accuracy statistics, and `placed` gives it
+ * the error of a tap on the map instead. It keeps the height it was given, as a tap on the map has none.
+ */
+const handPlaced = (p: GeoPoint, at: LatLng): GeoPoint => ({ ...p, lat: at.lat, lng: at.lng, accuracy: 0, precision: undefined, samples: undefined, timestamp: Date.now(), placed: true });
+
+export const moveVertex = (vertices: GeoPoint[], index: number, at: LatLng): GeoPoint[] =>
+  vertices.map((p, i) => i === index ? handPlaced(p, at) : p);
+
+/** New vertex at the middle of a segment, with the height and surface of the segment it splits. */
+export const insertVertex = (vertices: GeoPoint[], segment: number): GeoPoint[] => {
+  const a = vertices[segment];
+  const b = vertices[(segment + 1) % vertices.length];
+  const mid = handPlaced({ ...b, alt: a.alt !== null && b.alt !== null ? (a.alt + b.alt) / 2 : a.alt ?? b.alt, altAccuracy: null }, { lat: (a.lat + b.lat) / 2, lng: (a.lng + b.lng) / 2 });
+  return [...vertices.slice(0, segment + 1), mid, ...vertices.slice(segment + 1)];
+};
+
+/** Greens keep at least three points; a track's start and end can be moved but not deleted. */
+export const canDeleteVertex = (record: SavedRecord, vertices: GeoPoint[], index: number) =>
+  record.type === 'Green' ? vertices.length > 3 : index > 0 && index < vertices.length - 1;
+
+export const deleteVertex = (vertices: GeoPoint[], index: number): GeoPoint[] => vertices.filter((_, i) => i !== index);
+
+/**
+ * Only a green's segments carry a surface, held on the point each segment ends at; the closing segment back to
+ * the first point is always counted as green, as in `calculatePerimeter`.
+ */
+export const canFlagSegment = (record: SavedRecord, vertices: GeoPoint[], segment: number) =>
+  record.type === 'Green' && segment < vertices.length - 1;
+
+export const toggleSegment = (vertices: GeoPoint[], segment: number): GeoPoint[] =>
+  vertices.map((p, i) => i === segment + 1 ? { ...p, type: p.type === 'bunker' ? 'green' : 'bunker' } : p);
+
+/** The record rebuilt from edited vertices, with its measured values, uncertainty, playing lengths and green dimensions worked out again. */
+export const applyVertices = (original: SavedRecord, vertices: GeoPoint[], profiles?: ShotProfile[]): SavedRecord => {
+  if (original.type === 'Track') {
+    const edited = { ...original, ...buildTrackRecord(vertices[0], vertices.slice(1, -1), vertices[vertices.length - 1], original.path || [], profiles) };
+    return { ...edited, uncertainty: computeUncertainty(edited, edited.filter?.sharedVariance) };
+  }
+  const dims = original.dimensions;
+  const dimensions = dims ? computeGreenDimensions(vertices, dims.approachBearing, dims.approachSource) : null;
+  const edited = { ...original, ...buildGreenRecord(vertices), dimensions: dimensions ? { ...dimensions, approachArrow: dims!.approachArrow } : undefined };
+  return { ...edited, uncertainty: computeUncertainty(edited, edited.filter?.sharedVariance) };
+};
+
+/** Saves an edit as a new record that points back at the one it revises; the original stays in the history. */
+export const createRevision = (original: SavedRecord, edited: SavedRecord): SavedRecord => ({
+  ...edited,
+  id: generateId(),
+  date: Date.now(),
+  revisionOf: original.id,
+  revision: (original.revision ?? 1) + 1
+});
@@ -0,0 +1,90 @@
+import { GeoPoint, LegacyRecord, MeasuredValues, SavedRecord } from '../types.ts';
+import { calculateArea, calculateDistance, calculatePerimeter, pathLength } from './geoUtils.ts';
+import { trackPath } from './landingZones.ts';
+import { recordUncertainty } from './uncertainty.ts';
+
+/** A record's measured values with the accuracy behind them, in metres, for exports. Null where a metric does not apply to the record type. */
+export interface RecordMetrics {
+  distance: number | null;
+  legs: number[];
+  elevationChange: number | null;
+  walked: number | null;
+  area: number | null;
+  perimeter: number | null;
+  bunkerLength: number | null;
+  bunkerPercent: number | null;
+  meanAccuracy: number | null;
+  maxAccuracy: number | null;
+  meanAltAccuracy: number | null;
+  pointCount: number;
+  /** One-sigma uncertainties of the values above, null where not known. */
+  distanceUncertainty: number | null;
+  legUncertainties: number[];
+  elevationUncertainty: number | null;
+  areaUncertainty: number | null;
+  perimeterUncertainty: number | null;
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((s, v) => s + v, 0) / values.length : null;
+
+/** Points that fixed the measurement: a track's start, pivots and finish, or the outline or width ends. */
+export const measuredPoints = (record: SavedRecord): GeoPoint[] => record.type === 'Track' ? trackPath(record) as GeoPoint[] : record.points;
+
+/** The values a record measures, from its points. */
+export const measureRecord = (record: Pick<SavedRecord, 'type' | 'points' | 'pivots'>): MeasuredValues => {
+  const { points } = record;
+  if (record.type === 'Track' && points.length >= 2) {
+    const start = points[0];
+    const end = points[points.length - 1];
+    const line = [start, ...(record.pivots || []), end];
+    const legs = line.slice(1).map((p, i) => calculateDistance(line[i], p));
+    return {
+      distance: pathLength(line),
+      legs,
+      elevation: start.alt !== null && end.alt !== null ? end.alt - start.alt : undefined
+    };
+  }
+  if (record.type === 'Width' && points.length >= 2) return { distance: calculateDistance(points[0], points[points.length - 1]) };
+  if (record.type === 'Green' && points.length >= 3) {
+    const { perimeter, bunkerLength } = calculatePerimeter(points, true);
+    return { area: calculateArea(points), perimeter, bunker: bunkerLength };
+  }
+  return {};
+};
+
+/** Drops a legacy record's display strings and works its values out again from the points. No change to a current record. */
+export const withMeasuredValues = (record: LegacyRecord): SavedRecord => {
+  const { primaryValue, secondaryValue, measured, ...rest } = record;
+  return { ...rest, measured: measured || measureRecord(rest) };
+};
+
+export const bunkerPercent = (measured: MeasuredValues): number | null =>
+  measured.perimeter === undefined || measured.bunker === undefined ? null : measured.perimeter > 0 ? Math.round((measured.bunker / measured.perimeter) * 100) : 0;
+
+export const recordMetrics = (record: SavedRecord): RecordMetrics => {
+  const points = measuredPoints(record);
+  // Imported points with no accuracy recorded read 0 and are left out of the statistics.
+  const accuracies = points.map(p => p.accuracy).filter(a => a > 0);
+  const altAccuracies = points.filter(p => p.altAccuracy !== null && p.altAccuracy > 0).map(p => p.altAccuracy!);
+  const m = record.measured;
+  const u = recordUncertainty(record);
+  return {
+    distance: m.distance ?? null,
+    legs: m.legs || [],
+    elevationChange: m.elevation ?? null,
+    walked: record.type === 'Track' && record.path && record.path.length > 1 ? pathLength(record.path) : null,
+    area: m.area ?? null,
+    perimeter: m.perimeter ?? null,
+    bunkerLength: m.bunker ?? null,
+    bunkerPercent: bunkerPercent(m),
+    meanAccuracy: mean(accuracies),
+    maxAccuracy: accuracies.length ? Math.max(...accuracies) : null,
+    meanAltAccuracy: mean(altAccuracies),
+    pointCount: points.length,
+    distanceUncertainty: u.distance ?? null,
+    legUncertainties: u.legs || [],
+    elevationUncertainty: u.elevation ?? null,
+    areaUncertainty: u.area ?? null,
+    perimeterUncertainty: u.perimeter ?? null
+  };
+};
@@ -0,0 +1,32 @@
+/**
+ * Registers the offline service worker in production builds. `onUpdate` is called when a new release has installed
+ * and is waiting; calling the function it is given switches to that release and reloads the page.
+ */
+export const registerServiceWorker = (onUpdate: (apply: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  // Only a switch the user asked for reloads; the first install taking control of the page must not.
+  let switching = false;
+  const offer = (worker: ServiceWorker) => onUpdate(() => {
+    switching = true;
+    worker.postMessage({ type: 'SKIP_WAITING' });
+  });
+
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (!switching) return;
+    switching = false;
+    window.location.reload();
+  });
+
+  navigator.serviceWorker.register('/sw.js').then(registration => {
+    if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+    registration.addEventListener('updatefound', () => {
+      const worker = registration.installing;
+      if (!worker) return;
+      worker.addEventListener('statechange', () => {
+        // With no controller this is the first install, not an update.
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) offer(worker);
+      });
+    });
+  }).catch(e => console.error(e));
+};
@@ -0,0 +1,180 @@
+import { AltimetrySettings, AveragingSettings, CachedArea, Course, CourseSelection, FilterSettings, LandingZoneSettings, LegacyRecord, ObstacleWorksheet, SavedRecord } from '../types.ts';
+import { withMeasuredValues } from './recordMetrics.ts';
+
+const DB_NAME = 'golf_pro_caddy';
+
+type StoreName = 'records' | 'courses' | 'worksheets' | 'settings' | 'tileAreas';
+
+/** Everything kept in the settings store, by key. */
+export interface StoredSettings {
+  selection: CourseSelection;
+  zones: LandingZoneSettings;
+  filter: FilterSettings;
+  averaging: AveragingSettings;
+  altimetry: AltimetrySettings;
+}
+
+export interface StoredData {
+  records: SavedRecord[];
+  courses: Course[];
+  worksheets: ObstacleWorksheet[];
+  settings: Partial<StoredSettings>;
+}
+
+/**
+ * Schema migrations, one per database version: entry i upgrades version i to i + 1. Never edit a shipped entry;
+ * append a new one and the database version follows the length of this list.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  db => {
+    const records = db.createObjectStore('records', { keyPath: 'id' });
+    records.createIndex('courseId', 'courseId');
+    db.createObjectStore('courses', { keyPath: 'id' });
+    db.createObjectStore('worksheets', { keyPath: 'id' });
+    db.createObjectStore('settings');
+  },
+  db => {
+    db.createObjectStore('tileAreas', { keyPath: 'courseId' });
+  },
+  (db, tx) => {
+    const cursor = tx.objectStore('records').openCursor();
+    cursor.onsuccess = () => {
+      if (!cursor.result) return;
+      cursor.result.update(withMeasuredValues(cursor.result.value));
+      cursor.result.continue();
+    };
+  }
+];
+
+// Keys written by the localStorage versions of the app, read once into the database on first run.
+const LEGACY_KEYS = {
+  records: 'golf_pro_caddy_final',
+  recordsV2: 'golf_history_v2',
+  courses: 'golf_pro_caddy_courses',
+  worksheets: 'golf_pro_caddy_worksheets',
+  selection: 'golf_pro_caddy_selection',
+  zones: 'golf_pro_caddy_zones',
+  filter: 'golf_pro_caddy_filter',
+  averaging: 'golf_pro_caddy_averaging'
+} as const;
+const LEGACY_IMPORTED = 'legacyImported';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+  request.onupgradeneeded = e => {
+    for (let v = e.oldVersion; v < MIGRATIONS.length; v++) MIGRATIONS[v](request.result, request.transaction!);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let database: Promise<IDBDatabase> | null = null;
+const getDatabase = () => database || (database = openDatabase());
+
+/** Runs `work` in one transaction and resolves with its result once the transaction has committed. */
+const transact = async <T>(stores: StoreName[], mode: IDBTransactionMode, work: (tx: IDBTransaction) => T): Promise<T> => {
+  const db = await getDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const result = work(tx);
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const readLegacy = <T>(key: string): T | null => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try { return JSON.parse(saved); } catch (e) { console.error(e); return null; }
+};
+
+/** Records saved by the old v2 screen used 'Trk' and 'Grn' for their type. */
+type LegacyV2Record = Omit<LegacyRecord, 'type'> & { type: LegacyRecord['type'] | 'Trk' | 'Grn' };
+
+const fromV2 = (record: LegacyV2Record): LegacyRecord => ({ ...record, type: record.type === 'Grn' ? 'Green' : record.type === 'Trk' ? 'Track' : record.type });
+
+/**
+ * Copies the localStorage data into the database the first time it opens. The old keys are left in place so that
+ * going back to an older build does not lose anything.
+ */
+const importLegacy = async () => {
+  const done = await transact(['settings'], 'readonly', tx => tx.objectStore('settings').get(LEGACY_IMPORTED));
+  if (done.result) return;
+  const records = readLegacy<LegacyRecord[]>(LEGACY_KEYS.records) || [];
+  const v2 = (readLegacy<LegacyV2Record[]>(LEGACY_KEYS.recordsV2) || []).map(fromV2).filter(r => !records.some(existing => existing.id === r.id));
+  await transact(['records', 'courses', 'worksheets', 'settings'], 'readwrite', tx => {
+    [...records, ...v2].forEach(r => tx.objectStore('records').put(withMeasuredValues(r)));
+    (readLegacy<Course[]>(LEGACY_KEYS.courses) || []).forEach(c => tx.objectStore('courses').put(c));
+    (readLegacy<ObstacleWorksheet[]>(LEGACY_KEYS.worksheets) || []).forEach(w => tx.objectStore('worksheets').put(w));
+    (['selection', 'zones', 'filter', 'averaging'] as const).forEach(key => {
+      const value = readLegacy(LEGACY_KEYS[key]);
+      if (value !== null) tx.objectStore('settings').put(value, key);
+    });
+    tx.objectStore('settings').put(true, LEGACY_IMPORTED);
+  });
+};
+
+/** Everything the app keeps, newest records first. Imports the old localStorage data on first run. */
+export const loadDatabase = async (): Promise<StoredData> => {
+  await importLegacy();
+  const requests = await transact(['records', 'courses', 'worksheets', 'settings'], 'readonly', tx => ({
+    records: tx.objectStore('records').getAll(),
+    courses: tx.objectStore('courses').getAll(),
+    worksheets: tx.objectStore('worksheets').getAll(),
+    settingKeys: tx.objectStore('settings').getAllKeys(),
+    settingValues: tx.objectStore('settings').getAll()
+  }));
+  const settings: Record<string, unknown> = {};
+  requests.settingKeys.result.forEach((key, i) => { settings[String(key)] = requests.settingValues.result[i]; });
+  return {
+    records: (requests.records.result as SavedRecord[]).sort((a, b) => b.date - a.date),
+    courses: (requests.courses.result as Course[]).sort((a, b) => a.createdAt - b.createdAt),
+    worksheets: requests.worksheets.result as ObstacleWorksheet[],
+    settings: settings as Partial<StoredSettings>
+  };
+};
+
+export const putRecords = (records: SavedRecord[]) =>
+  transact(['records'], 'readwrite', tx => records.forEach(r => tx.objectStore('records').put(r)));
+
+export const deleteRecord = (id: string) =>
+  transact(['records'], 'readwrite', tx => { tx.objectStore('records').delete(id); });
+
+/** Courses are few and edited as a list, so the whole list is written each time. */
+export const replaceCourses = (courses: Course[]) =>
+  transact(['courses'], 'readwrite', tx => {
+    tx.objectStore('courses').clear();
+    courses.forEach(c => tx.objectStore('courses').put(c));
+  });
+
+export const putWorksheet = (worksheet: ObstacleWorksheet) =>
+  transact(['worksheets'], 'readwrite', tx => { tx.objectStore('worksheets').put(worksheet); });
+
+export const deleteWorksheets = (ids: string[]) =>
+  transact(['worksheets'], 'readwrite', tx => ids.forEach(id => tx.objectStore('worksheets').delete(id)));
+
+export const putSetting = <K extends keyof StoredSettings>(key: K, value: StoredSettings[K]) =>
+  transact(['settings'], 'readwrite', tx => { tx.objectStore('settings').put(value, key); });
+
+/** Swaps the whole database for `data`, as one transaction so a failed restore leaves the old data in place. */
+export const replaceDatabase = (data: StoredData) =>
+  transact(['records', 'courses', 'worksheets', 'settings'], 'readwrite', tx => {
+    (['records', 'courses', 'worksheets', 'settings'] as const).forEach(store => tx.objectStore(store).clear());
+    data.records.forEach(r => tx.objectStore('records').put(r));
+    data.courses.forEach(c => tx.objectStore('courses').put(c));
+    data.worksheets.forEach(w => tx.objectStore('worksheets').put(w));
+    Object.entries(data.settings).forEach(([key, value]) => tx.objectStore('settings').put(value, key));
+    tx.objectStore('settings').put(true, LEGACY_IMPORTED);
+  });
+
+/** Offline map areas live beside the data rather than in it: they are not part of a backup and survive a restore. */
+export const loadTileAreas = () =>
+  transact(['tileAreas'], 'readonly', tx => tx.objectStore('tileAreas').getAll())
+    .then(request => request.result as CachedArea[]);
+
+export const putTileArea = (area: CachedArea) =>
+  transact(['tileAreas'], 'readwrite', tx => { tx.objectStore('tileAreas').put(area); });
+
+export const deleteTileArea = (courseId: string) =>
+  transact(['tileAreas'], 'readwrite', tx => { tx.objectStore('tileAreas').delete(courseId); });
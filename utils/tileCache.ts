@@ -0,0 +1,145 @@
+import { CachedArea, LatLng, MapStyle, SavedRecord, TileBounds } from '../types.ts';
+import { destinationPoint } from './geoUtils.ts';
+
+export const TILE_SOURCES: Record<MapStyle, string> = {
+  Street: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  Satellite: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}'
+};
+
+/**
+ * Styles whose tiles may be saved for offline use. The OpenStreetMap tile servers forbid bulk downloading and
+ * prefetching, so the street map is only ever drawn from the network.
+ */
+export const OFFLINE_STYLES: MapStyle[] = ['Satellite'];
+const ALL_STYLES = Object.keys(TILE_SOURCES) as MapStyle[];
+
+export const MAX_NATIVE_ZOOM = 19;
+export const MIN_CACHE_ZOOM = 12;
+export const DEFAULT_CACHE_ZOOMS = { minZoom: 15, maxZoom: 19 };
+
+// One area is held to roughly a course and its surrounds, so a download stays a modest load on the imagery server.
+export const MAX_AREA_TILES = 6000;
+
+const CACHE_NAME = 'golf-map-tiles';
+// Margin kept around a course's outermost recorded point, and the radius used for a course with nothing recorded yet.
+const AREA_PADDING = 150;
+const NEW_COURSE_RADIUS = 800;
+// Requests kept in flight at once: two, the usual limit tile servers set for a single client.
+const PARALLEL_FETCHES = 2;
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+  bytes: number;
+}
+
+const tileX = (lng: number, z: number) => Math.floor((lng + 180) / 360 * 2 ** z);
+const tileY = (lat: number, z: number) => {
+  const r = lat * Math.PI / 180;
+  return Math.floor((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2 * 2 ** z);
+};
+
+const tileUrl = (style: MapStyle, z: number, x: number, y: number) =>
+  TILE_SOURCES[style].replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+const tileRange = (bounds: TileBounds, z: number) => ({
+  x0: tileX(bounds.west, z), x1: tileX(bounds.east, z),
+  y0: tileY(bounds.north, z), y1: tileY(bounds.south, z)
+});
+
+/** Tiles needed for the offline styles over the zoom range, counted without listing them. */
+export const countAreaTiles = (bounds: TileBounds, minZoom: number, maxZoom: number): number => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(bounds, z);
+    count += (r.x1 - r.x0 + 1) * (r.y1 - r.y0 + 1);
+  }
+  return count * OFFLINE_STYLES.length;
+};
+
+export const areaTileUrls = (bounds: TileBounds, minZoom: number, maxZoom: number, styles: MapStyle[] = OFFLINE_STYLES): string[] => {
+  const urls: string[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(bounds, z);
+    for (let x = r.x0; x <= r.x1; x++) {
+      for (let y = r.y0; y <= r.y1; y++) styles.forEach(style => urls.push(tileUrl(style, z, x, y)));
+    }
+  }
+  return urls;
+};
+
+/**
+ * Box around everything recorded on a course, with a margin. A course with no records yet gets a box centred on
+ * `around` (normally the current fix), or null when that is unknown too.
+ */
+export const courseBounds = (records: SavedRecord[], courseId: string, around: LatLng | null): TileBounds | null => {
+  const recorded: LatLng[] = records.filter(r => r.courseId === courseId).flatMap(r => [...r.points, ...(r.pivots || []), ...(r.path || [])]);
+  const points = recorded.length > 0 ? recorded : around ? [around] : [];
+  if (points.length === 0) return null;
+  const pad = recorded.length > 0 ? AREA_PADDING : NEW_COURSE_RADIUS;
+  const lats = points.map(p => p.lat);
+  const lngs = points.map(p => p.lng);
+  const mid = { lat: (Math.max(...lats) + Math.min(...lats)) / 2, lng: (Math.max(...lngs) + Math.min(...lngs)) / 2 };
+  return {
+    north: destinationPoint({ lat: Math.max(...lats), lng: mid.lng }, 0, pad).lat,
+    south: destinationPoint({ lat: Math.min(...lats), lng: mid.lng }, 180, pad).lat,
+    east: destinationPoint({ lat: mid.lat, lng: Math.max(...lngs) }, 90, pad).lng,
+    west: destinationPoint({ lat: mid.lat, lng: Math.min(...lngs) }, 270, pad).lng
+  };
+};
+
+const hasCache = () => typeof caches !== 'undefined';
+
+/** The saved copy of a tile, or null when it has not been downloaded. */
+export const cachedTile = async (url: string): Promise<Blob | null> => {
+  if (!hasCache()) return null;
+  const hit = await (await caches.open(CACHE_NAME)).match(url);
+  return hit ? hit.blob() : null;
+};
+
+/**
+ * Fetches every tile of the area that is not already saved. Failed tiles are counted and skipped; a cancelled
+ * download still returns what it saved so that it can be seen and deleted in the cache manager.
+ */
+export const downloadArea = async (courseId: string, bounds: TileBounds, minZoom: number, maxZoom: number, onProgress: (progress: DownloadProgress) => void, signal: AbortSignal): Promise<CachedArea> => {
+  const urls = areaTileUrls(bounds, minZoom, maxZoom);
+  const cache = await caches.open(CACHE_NAME);
+  const progress: DownloadProgress = { done: 0, total: urls.length, failed: 0, bytes: 0 };
+  let next = 0;
+  const worker = async () => {
+    while (next < urls.length && !signal.aborted) {
+      const url = urls[next++];
+      try {
+        let response = await cache.match(url);
+        if (!response) {
+          response = await fetch(url, { signal });
+          if (!response.ok) throw new Error(`${response.status} for ${url}`);
+          await cache.put(url, response.clone());
+        }
+        progress.bytes += (await response.blob()).size;
+      } catch (e) {
+        if (signal.aborted) return;
+        console.error(e);
+        progress.failed += 1;
+      }
+      progress.done += 1;
+      onProgress({ ...progress });
+    }
+  };
+  await Promise.all(Array.from({ length: PARALLEL_FETCHES }, worker));
+  return { courseId, bounds, minZoom, maxZoom, tileCount: progress.done - progress.failed, bytes: progress.bytes, downloadedAt: Date.now() };
+};
+
+/**
+ * Removes an area's tiles, keeping any that another saved area overlaps. Every style is cleared, as areas saved by
+ * earlier versions also hold street tiles.
+ */
+export const deleteAreaTiles = async (area: CachedArea, others: CachedArea[]) => {
+  if (!hasCache()) return;
+  const kept = new Set(others.filter(a => a !== area).flatMap(a => areaTileUrls(a.bounds, a.minZoom, a.maxZoom, ALL_STYLES)));
+  const cache = await caches.open(CACHE_NAME);
+  await Promise.all(areaTileUrls(area.bounds, area.minZoom, area.maxZoom, ALL_STYLES).filter(url => !kept.has(url)).map(url => cache.delete(url)));
+};
+
+export const formatBytes = (bytes: number) => bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
@@ -0,0 +1,105 @@
+import { GeoPoint, MeasurementUncertainty, SavedRecord, UnitSystem } from '../types.ts';
+import { LocalPoint, toLocalMetres } from './geoUtils.ts';
+import { DEFAULT_FILTER_SETTINGS } from './positionFilter.ts';
+
+/** Error of a point placed by hand on the map, relative to the points around it: about a fingertip at the zoom used. */
+const PLACED_POINT_ERROR = 1;
+
+type Shape = Pick<SavedRecord, 'type' | 'points' | 'pivots' | 'desk'>;
+
+/**
+ * The part of a point's error not shared with the rest of the measurement, or null when its accuracy is not known.
+ * A shared error (atmospheric delay, satellite orbit and clock) shifts every point the same way and leaves distances
+ * and areas unchanged; how much of the variance that is comes from the `sharedVariance` GPS filter setting.
+ * An averaged point is as good as the standard error of its mean (`precision`), not the mean accuracy of its fixes.
+ * Every point of a desk record counts as placed, as those saved before `placed` was recorded lack the flag.
+ */
+const pointError = (p: GeoPoint, shared: number, desk?: boolean): number | null => {
+  if (p.precision !== undefined) return p.precision * Math.sqrt(1 - shared);
+  return p.accuracy > 0 ? p.accuracy * Math.sqrt(1 - shared) : p.placed || desk ? PLACED_POINT_ERROR : null;
+};
+
+const heightError = (p: GeoPoint, shared: number): number | null =>
+  p.alt !== null && p.altAccuracy !== null && p.altAccuracy > 0 ? p.altAccuracy * Math.sqrt(1 - shared) : null;
+
+const unit = (a: LocalPoint, b: LocalPoint): LocalPoint => {
+  const d = Math.hypot(b.x - a.x, b.y - a.y);
+  return d > 0 ? { x: (b.x - a.x) / d, y: (b.y - a.y) / d } : { x: 0, y: 0 };
+};
+
+/**
+ * First-order propagation: the square root of the sum over points of (error × length of the value's gradient at that
+ * point)². Each point's error is taken as independent and the same in every direction.
+ */
+const propagate = (points: GeoPoint[], shared: number, desk: boolean | undefined, gradient: (local: LocalPoint[], i: number) => number): number | null => {
+  const errors = points.map(p => pointError(p, shared, desk));
+  if (errors.some(e => e === null)) return null;
+  const local = points.map(p => toLocalMetres(p, points[0]));
+  return Math.sqrt(errors.reduce((s, e, i) => s + (e! * gradient(local, i)) ** 2, 0));
+};
+
+/** Length of a line through the points, or round them when `closed`. A point's gradient is the difference of the unit vectors of its two legs. */
+const lengthUncertainty = (points: GeoPoint[], closed: boolean, shared: number, desk?: boolean) => propagate(points, shared, desk, (p, i) => {
+  const n = p.length;
+  const before = i > 0 ? unit(p[i - 1], p[i]) : closed ? unit(p[n - 1], p[0]) : { x: 0, y: 0 };
+  const after = i < n - 1 ? unit(p[i], p[i + 1]) : closed ? unit(p[n - 1], p[0]) : { x: 0, y: 0 };
+  return Math.hypot(before.x - after.x, before.y - after.y);
+});
+
+/** Shoelace area: a point's gradient is half the distance between its two neighbours. */
+const areaUncertainty = (points: GeoPoint[], shared: number, desk?: boolean) => propagate(points, shared, desk, (p, i) => {
+  const n = p.length;
+  const prev = p[(i - 1 + n) % n], next = p[(i + 1) % n];
+  return Math.hypot(next.x - prev.x, next.y - prev.y) / 2;
+});
+
+const elevationUncertainty = (a: GeoPoint, b: GeoPoint, shared: number): number | null => {
+  const ea = heightError(a, shared), eb = heightError(b, shared);
+  return ea !== null && eb !== null ? Math.sqrt(ea * ea + eb * eb) : null;
+};
+
+const known = (v: number | null) => v === null ? undefined : v;
+
+/**
+ * One-sigma uncertainty of each value a record measures, from the accuracy of the points that fix it, with
+ * `sharedVariance` of each fix's error variance taken as common to the whole measurement.
+ */
+export const computeUncertainty = (record: Shape, sharedVariance = DEFAULT_FILTER_SETTINGS.sharedVariance): MeasurementUncertainty => {
+  const shared = Math.min(1, Math.max(0, sharedVariance));
+  const { points, desk } = record;
+  if (points.length < 2) return {};
+  if (record.type === 'Track') {
+    const line = [points[0], ...(record.pivots || []), points[points.length - 1]];
+    const legs = line.slice(1).map((p, i) => lengthUncertainty([line[i], p], false, shared, desk));
+    return {
+      distance: known(lengthUncertainty(line, false, shared, desk)),
+      legs: legs.every(l => l !== null) ? legs as number[] : undefined,
+      elevation: known(elevationUncertainty(line[0], line[line.length - 1], shared))
+    };
+  }
+  if (record.type === 'Width') return { distance: known(lengthUncertainty([points[0], points[points.length - 1]], false, shared, desk)) };
+  if (points.length < 3) return {};
+  return { area: known(areaUncertainty(points, shared, desk)), perimeter: known(lengthUncertainty(points, true, shared, desk)) };
+};
+
+/**
+ * The uncertainty stored with the record, or worked out from its points for records saved before it was stored, with
+ * the shared variance of the filter settings it was recorded under.
+ */
+export const recordUncertainty = (record: SavedRecord): MeasurementUncertainty =>
+  record.uncertainty || computeUncertainty(record, record.filter?.sharedVariance);
+
+/** "±2.1yd", "±0.8ft" or "±14yd²"; empty when the uncertainty is not known. */
+export const formatUncertainty = (value: number | undefined, kind: 'distance' | 'elevation' | 'area', units: UnitSystem): string => {
+  if (value === undefined) return '';
+  const yards = units === 'Yards';
+  if (kind === 'area') return `±${Math.round(value * (yards ? 1.196 : 1))}${yards ? 'yd²' : 'm²'}`;
+  if (kind === 'elevation') return `±${(value * (yards ? 3.28084 : 1)).toFixed(1)}${yards ? 'ft' : 'm'}`;
+  return `±${(value * (yards ? 1.09361 : 1)).toFixed(1)}${yards ? 'yd' : 'm'}`;
+};
+
+/** Uncertainty of the value a record is listed by: its distance, or a green's area. */
+export const primaryUncertainty = (record: SavedRecord, units: UnitSystem): string => {
+  const u = recordUncertainty(record);
+  return record.type === 'Green' ? formatUncertainty(u.area, 'area', units) : formatUncertainty(u.distance, 'distance', units);
+};
@@ -1,7 +1,28 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Emits sw.js from the template at the project root, listing every built file and the public folder for precaching.
+ * The version is a hash of the built output, so any change to the app ships as a new service worker.
+ */
+const serviceWorker = (): Plugin => ({
+  name: 'precache-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const hash = createHash('sha256');
+    Object.values(bundle).forEach(file => hash.update(file.type === 'chunk' ? file.code : file.source));
+    const files = ['/', ...Object.keys(bundle).map(name => `/${name}`), ...fs.readdirSync(path.resolve(__dirname, 'public')).map(name => `/${name}`)];
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8')
+      .replace('__VERSION__', hash.digest('hex').slice(0, 12))
+      .replace('__PRECACHE_FILES__', JSON.stringify(files, null, 2));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +30,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)